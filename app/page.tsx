@@ -8,6 +8,7 @@ import {
   CodeRabbitReportForm,
   getCodeRabbitReportPayload,
   getInitialFormData,
+  validateCodeRabbitReportForm,
   type CodeRabbitReportFormData,
 } from '@/registry/default/components/report-form/report-form'
 import { Button } from '@/components/ui/button'
@@ -33,12 +34,19 @@ export default function Home() {
   const storage = useMemo(() => new LocalStorageAdapter(), [])
 
   // Initialize the CodeRabbit hook with storage
-  const { generateReport, isGenerating, error, isConfigured, clearError } =
-    useCodeRabbit({
-      storage,
-      onSuccess: () => loadReports(),
-      onError: () => loadReports(),
-    })
+  const {
+    generateReport,
+    isGenerating,
+    error,
+    isConfigured,
+    clearError,
+    cancel,
+  } = useCodeRabbit({
+    storage,
+    onSuccess: () => loadReports(),
+    onError: () => loadReports(),
+    onCancel: () => loadReports(),
+  })
 
   // Load reports from storage
   const loadReports = useCallback(async () => {
@@ -117,11 +125,19 @@ export default function Home() {
 
             <Button
               onClick={handleGenerateReport}
-              disabled={!formData.promptTemplate || isGenerating}
+              disabled={
+                !validateCodeRabbitReportForm(formData).valid || isGenerating
+              }
               className="w-full"
             >
               {isGenerating ? 'Generating...' : 'Generate Report'}
             </Button>
+
+            {isGenerating && (
+              <Button variant="outline" onClick={cancel} className="w-full">
+                Cancel
+              </Button>
+            )}
           </CardContent>
         </Card>
 
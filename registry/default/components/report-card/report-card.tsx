@@ -3,6 +3,7 @@
 import * as React from 'react'
 import ReactMarkdown from 'react-markdown'
 import {
+  Ban,
   ChevronRight,
   Clock,
   ExternalLink,
@@ -24,6 +25,10 @@ import {
   CodeRabbitIcon,
   CodeRabbitLogo,
 } from '@/registry/default/ui/branding'
+import {
+  parseReport,
+  type ParsedReport,
+} from '@/registry/default/lib/report-parser'
 import type { StoredReport } from '@/registry/default/lib/types'
 
 export interface CodeRabbitReportCardProps {
@@ -32,6 +37,37 @@ export interface CodeRabbitReportCardProps {
   isDeleting?: boolean
 }
 
+/**
+ * Format a report's date range in the viewer's locale
+ *
+ * Stored dates are calendar days in the report's timezone, so they're formatted
+ * as-is (via UTC) instead of being shifted into the viewer's timezone. The
+ * report's timezone is appended when it differs from the viewer's.
+ */
+function formatReportDateRange(report: StoredReport): string {
+  const toUtcDate = (value: string) => {
+    const [year, month, day] = value.split('-').map(Number)
+    return new Date(Date.UTC(year, month - 1, day))
+  }
+  const from = toUtcDate(report.fromDate)
+  const to = toUtcDate(report.toDate)
+  if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+    return `${report.fromDate} - ${report.toDate}`
+  }
+
+  const range = new Intl.DateTimeFormat(undefined, {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  }).formatRange(from, to)
+  const viewerTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone
+
+  return report.timeZone && report.timeZone !== viewerTimeZone
+    ? `${range} (${report.timeZone})`
+    : range
+}
+
 export function CodeRabbitReportCard({
   reports,
   onDelete,
@@ -115,24 +151,18 @@ export function CodeRabbitReportCard({
                           <Badge variant="destructive">Failed</Badge>
                         </>
                       )}
+                      {report.status === 'cancelled' && (
+                        <>
+                          <Ban className="h-4 w-4 text-muted-foreground shrink-0" />
+                          <Badge variant="outline" className="text-muted-foreground">
+                            Cancelled
+                          </Badge>
+                        </>
+                      )}
                     </div>
                     <div className="flex items-center gap-3 text-xs text-muted-foreground flex-wrap">
-                      <span>
-                        {new Date(
-                          report.fromDate + 'T00:00:00',
-                        ).toLocaleDateString('en-US', {
-                          month: 'short',
-                          day: 'numeric',
-                          year: 'numeric',
-                        })}{' '}
-                        -{' '}
-                        {new Date(
-                          report.toDate + 'T00:00:00',
-                        ).toLocaleDateString('en-US', {
-                          month: 'short',
-                          day: 'numeric',
-                          year: 'numeric',
-                        })}
+                      <span title={report.timeZone}>
+                        {formatReportDateRange(report)}
                       </span>
                     </div>
                   </div>
@@ -176,32 +206,15 @@ export function CodeRabbitReportCard({
                 {isExpanded && report.status === 'completed' && (
                   <div className="mt-6 space-y-4">
                     {report.results.map((result, idx) => {
-                      // Check if this is Daily Standup format (has PR Link markers)
-                      const isDailyStandup =
-                        result.report.includes('**PR Link:**')
+                      const parsed = parseReport(result)
 
-                      if (isDailyStandup) {
-                        return (
-                          <DailyStandupView
-                            key={idx}
-                            group={result.group}
-                            report={result.report}
-                          />
-                        )
+                      if (parsed.kind === 'daily-standup') {
+                        return <DailyStandupView key={idx} parsed={parsed} />
                       }
 
-                      // Sprint Report / Release Notes - check if we can extract PR-level details
-                      const hasMultiplePRs =
-                        (result.report.match(/\[#\d+\]/g) || []).length > 1
-
-                      if (hasMultiplePRs) {
-                        return (
-                          <MultiPRView
-                            key={idx}
-                            group={result.group}
-                            report={result.report}
-                          />
-                        )
+                      // Sprint Report / Release Notes with PR-level details
+                      if (parsed.kind === 'pull-requests') {
+                        return <MultiPRView key={idx} parsed={parsed} />
                       }
 
                       // Fallback: single card with full markdown
@@ -224,37 +237,14 @@ export function CodeRabbitReportCard({
   )
 }
 
-function DailyStandupView({
-  group,
-  report,
-}: {
-  group: string
-  report: string
-}) {
-  const prs = report
-    .split(/(?=^- \*\*PR Link:\*\*)/m)
-    .filter((pr: string) => pr.trim())
-
+function DailyStandupView({ parsed }: { parsed: ParsedReport }) {
   return (
     <div className="space-y-4">
-      <h4 className="font-semibold text-lg mb-4">{group}</h4>
+      <h4 className="font-semibold text-lg mb-4">{parsed.group}</h4>
       <div className="space-y-4">
-        {prs.map((pr: string, prIdx: number) => {
-          const prLinkMatch = pr.match(/\*\*PR Link:\*\*\s*\[(.*?)\]\((.*?)\)/)
-          const summaryMatch = pr.match(/\*\*Summary:\*\*\s*(.*?)(?=\n|$)/)
-          const nextStepsMatch = pr.match(/\*\*Next Steps:\*\*\s*(.*?)(?=\n|$)/)
-
-          const prNumberMatch =
-            prLinkMatch?.[1]?.match(/#(\d+)/) ||
-            prLinkMatch?.[2]?.match(/\/pull\/(\d+)/)
-          const prNumber = prNumberMatch?.[1]
-
-          const prTitle =
-            prLinkMatch?.[1]?.replace(/#\d+:?\s*/, '') ||
-            `Pull Request ${prIdx + 1}`
-          const prUrl = prLinkMatch?.[2]
-          const summary = summaryMatch?.[1]
-          const nextSteps = nextStepsMatch?.[1]
+        {parsed.pullRequests.map((pr, prIdx) => {
+          const { number: prNumber, url: prUrl, title: prTitle } = pr
+          const { summary, nextSteps } = pr
 
           return (
             <div
@@ -265,7 +255,7 @@ function DailyStandupView({
               <div className="space-y-3">
                 <div className="flex items-start justify-between gap-3">
                   <div className="flex items-center gap-3 flex-wrap flex-1 min-w-0">
-                    {prNumber && (
+                    {prNumber !== undefined && (
                       <Badge
                         variant="secondary"
                         className="font-mono text-xs shrink-0"
@@ -332,56 +322,28 @@ function DailyStandupView({
   )
 }
 
-function MultiPRView({ group, report }: { group: string; report: string }) {
-  const sections: Array<{ title: string; content: string }> = []
-  const lines = report.split('\n')
-  let currentSection: { title: string; content: string } | null = null
-
-  lines.forEach((line: string) => {
-    const prMatch = line.match(/\[#(\d+)\]\((.*?)\)/)
-    if (prMatch) {
-      if (currentSection) {
-        sections.push(currentSection)
-      }
-      currentSection = {
-        title: line,
-        content: '',
-      }
-    } else if (currentSection) {
-      currentSection.content += line + '\n'
-    }
-  })
-
-  if (currentSection) {
-    sections.push(currentSection)
-  }
-
-  if (sections.length === 0) {
-    return <MarkdownReportView group={group} report={report} />
+function MultiPRView({ parsed }: { parsed: ParsedReport }) {
+  if (parsed.pullRequests.length === 0) {
+    return <MarkdownReportView group={parsed.group} report={parsed.markdown} />
   }
 
   return (
     <div className="space-y-4">
-      <h4 className="font-semibold text-lg mb-4">{group}</h4>
+      <h4 className="font-semibold text-lg mb-4">{parsed.group}</h4>
       <div className="space-y-4">
-        {sections.map((section, sectionIdx) => {
-          const prMatch = section.title.match(/\[#(\d+)\]\((.*?)\)/)
-          const titleMatch = section.title.match(/\[#\d+\]\(.*?\):?\s*(.*)/)
-
-          const prNumber = prMatch?.[1]
-          const prUrl = prMatch?.[2]
-          const prTitle = titleMatch?.[1]?.trim() || `Pull Request #${prNumber}`
+        {parsed.pullRequests.map((pr, prIdx) => {
+          const { number: prNumber, url: prUrl, title: prTitle } = pr
 
           return (
             <Card
-              key={sectionIdx}
+              key={prIdx}
               className="group hover:shadow-lg hover:border-primary/20 transition-all duration-200"
             >
               <CardHeader className="pb-4 bg-card">
                 <div className="flex items-start justify-between gap-3">
                   <div className="flex-1 space-y-2">
                     <div className="flex items-center gap-2">
-                      {prNumber && (
+                      {prNumber !== undefined && (
                         <Badge
                           variant="secondary"
                           className="font-mono text-xs px-2 py-0.5"
@@ -414,9 +376,9 @@ function MultiPRView({ group, report }: { group: string; report: string }) {
                 </div>
               </CardHeader>
 
-              {section.content.trim() && (
+              {pr.content && (
                 <CardContent className="pt-0">
-                  <MarkdownContent content={section.content} />
+                  <MarkdownContent content={pr.content} />
                 </CardContent>
               )}
 
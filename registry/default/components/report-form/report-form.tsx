@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useRef, useMemo } from 'react'
 import { Plus, X } from 'lucide-react'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
@@ -13,12 +13,23 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
+import {
+  getLocalTimeZone,
+  resolveDateRange,
+  type DateRangeOptions,
+  type DateRangePreset,
+} from '@/registry/default/lib/date-range'
 import type {
   PromptTemplate,
   FilterParameter,
   FilterOperator,
   GroupBy,
 } from '@/registry/default/lib/types'
+import {
+  isValidTimeZone,
+  validateReportRequest,
+  type ValidationResult,
+} from '@/registry/default/lib/validation'
 
 const PROMPT_TEMPLATES = [
   'Select template',
@@ -28,6 +39,20 @@ const PROMPT_TEMPLATES = [
   'Custom',
 ] as const
 
+const DATE_RANGE_OPTIONS: { value: DateRangePreset; label: string }[] = [
+  { value: 'today', label: 'Today' },
+  { value: 'yesterday', label: 'Yesterday' },
+  { value: 'last-7-days', label: 'Last 7 days' },
+  { value: 'last-14-days', label: 'Last 14 days' },
+  { value: 'last-30-days', label: 'Last 30 days' },
+  { value: 'this-week', label: 'This week' },
+  { value: 'previous-week', label: 'Previous week' },
+  { value: 'this-month', label: 'This month' },
+  { value: 'previous-month', label: 'Previous month' },
+  { value: 'this-sprint', label: 'This sprint' },
+  { value: 'last-sprint', label: 'Last sprint' },
+]
+
 const GROUP_BY_OPTIONS = [
   { value: 'NONE', label: 'None' },
   { value: 'REPOSITORY', label: 'Repository' },
@@ -69,34 +94,37 @@ export interface CodeRabbitReportFormData {
   groupBy: string
   subgroupBy: string
   orgId: string
+  /** IANA timezone the dates are in (default: the browser's) */
+  timeZone?: string
   filters: FilterParameterForm[]
 }
 
 interface CodeRabbitReportFormProps {
   value: CodeRabbitReportFormData
   onChange: (value: CodeRabbitReportFormData) => void
+  /** Timezone and sprint settings for the quick range picker */
+  dateRangeOptions?: DateRangeOptions
 }
 
 /**
- * Get default date range (last 7 days)
+ * Get default date range (last 7 days in the given or local timezone)
  */
-function getDefaultDateRange() {
-  const today = new Date()
-  const weekAgo = new Date(today.getTime() - 7 * 24 * 60 * 60 * 1000)
-  return {
-    fromDate: weekAgo.toISOString().split('T')[0],
-    toDate: today.toISOString().split('T')[0],
-  }
+function getDefaultDateRange(options?: DateRangeOptions) {
+  const { from, to } = resolveDateRange('last-7-days', options)
+  return { fromDate: from, toDate: to }
 }
 
 /**
  * Get initial form data with sensible defaults
  */
-export function getInitialFormData(): CodeRabbitReportFormData {
-  const { fromDate, toDate } = getDefaultDateRange()
+export function getInitialFormData(
+  options?: DateRangeOptions,
+): CodeRabbitReportFormData {
+  const { fromDate, toDate } = getDefaultDateRange(options)
   return {
     fromDate,
     toDate,
+    timeZone: options?.timeZone ?? getLocalTimeZone(),
     promptTemplate: '',
     customPrompt: '',
     groupBy: 'NONE',
@@ -109,9 +137,35 @@ export function getInitialFormData(): CodeRabbitReportFormData {
 export function CodeRabbitReportForm({
   value,
   onChange,
+  dateRangeOptions,
 }: CodeRabbitReportFormProps) {
   const [showAdvanced, setShowAdvanced] = useState(false)
   const initializedRef = useRef(false)
+  // Ignore a half-typed timezone until it's valid
+  const timeZone = isValidTimeZone(value.timeZone)
+    ? value.timeZone
+    : dateRangeOptions?.timeZone
+  const rangeOptions = useMemo(
+    () => ({ ...dateRangeOptions, timeZone }),
+    [dateRangeOptions, timeZone],
+  )
+
+  const { issues } = useMemo(
+    () => validateCodeRabbitReportForm(value),
+    [value],
+  )
+  const fieldIssue = (field: string) =>
+    issues.find((issue) => issue.field === field)?.message
+
+  // Preset matching the current dates, if any
+  const dateRangePreset = useMemo(
+    () =>
+      DATE_RANGE_OPTIONS.find(({ value: preset }) => {
+        const range = resolveDateRange(preset, rangeOptions)
+        return range.from === value.fromDate && range.to === value.toDate
+      })?.value ?? '',
+    [value.fromDate, value.toDate, rangeOptions],
+  )
 
   // Set default dates on mount if not provided
   useEffect(() => {
@@ -119,14 +173,19 @@ export function CodeRabbitReportForm({
     initializedRef.current = true
 
     if (!value.fromDate || !value.toDate) {
-      const { fromDate, toDate } = getDefaultDateRange()
+      const { fromDate, toDate } = getDefaultDateRange(rangeOptions)
       onChange({
         ...value,
         fromDate: value.fromDate || fromDate,
         toDate: value.toDate || toDate,
       })
     }
-  }, [value, onChange])
+  }, [value, onChange, rangeOptions])
+
+  const applyDateRange = (preset: DateRangePreset) => {
+    const { from, to } = resolveDateRange(preset, rangeOptions)
+    onChange({ ...value, fromDate: from, toDate: to })
+  }
 
   const addFilter = () => {
     onChange({
@@ -157,6 +216,28 @@ export function CodeRabbitReportForm({
 
   return (
     <div className="space-y-4">
+      {/* Quick Date Range */}
+      <div className="space-y-2">
+        <Label htmlFor="dateRange" className="text-sm font-semibold">
+          Date Range
+        </Label>
+        <Select
+          value={dateRangePreset}
+          onValueChange={(preset) => applyDateRange(preset as DateRangePreset)}
+        >
+          <SelectTrigger id="dateRange" className="h-11">
+            <SelectValue placeholder="Custom range" />
+          </SelectTrigger>
+          <SelectContent>
+            {DATE_RANGE_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
       {/* Date Range */}
       <div className="grid grid-cols-2 gap-4">
         <div className="space-y-2">
@@ -169,7 +250,9 @@ export function CodeRabbitReportForm({
             value={value.fromDate}
             onChange={(e) => onChange({ ...value, fromDate: e.target.value })}
             className="h-11"
+            aria-invalid={!!fieldIssue('from')}
           />
+          <FieldIssue message={fieldIssue('from')} />
         </div>
         <div className="space-y-2">
           <Label htmlFor="toDate" className="text-sm font-semibold">
@@ -181,7 +264,9 @@ export function CodeRabbitReportForm({
             value={value.toDate}
             onChange={(e) => onChange({ ...value, toDate: e.target.value })}
             className="h-11"
+            aria-invalid={!!fieldIssue('to')}
           />
+          <FieldIssue message={fieldIssue('to')} />
         </div>
       </div>
 
@@ -226,7 +311,9 @@ export function CodeRabbitReportForm({
             placeholder="Describe what you want in the report..."
             rows={4}
             required
+            aria-invalid={!!fieldIssue('prompt')}
           />
+          <FieldIssue message={fieldIssue('prompt')} />
         </div>
       )}
 
@@ -281,6 +368,7 @@ export function CodeRabbitReportForm({
                 ))}
               </SelectContent>
             </Select>
+            <FieldIssue message={fieldIssue('subgroupBy')} />
           </div>
 
           {/* Organization ID */}
@@ -292,6 +380,19 @@ export function CodeRabbitReportForm({
               onChange={(e) => onChange({ ...value, orgId: e.target.value })}
               placeholder="Enter organization ID"
             />
+            <FieldIssue message={fieldIssue('orgId')} />
+          </div>
+
+          {/* Timezone */}
+          <div className="space-y-2">
+            <Label htmlFor="timeZone">Timezone</Label>
+            <Input
+              id="timeZone"
+              value={value.timeZone ?? ''}
+              onChange={(e) => onChange({ ...value, timeZone: e.target.value })}
+              placeholder={getLocalTimeZone()}
+            />
+            <FieldIssue message={fieldIssue('timeZone')} />
           </div>
 
           {/* Filters */}
@@ -395,6 +496,24 @@ export function CodeRabbitReportForm({
   )
 }
 
+/**
+ * Inline validation message shown under a field
+ */
+function FieldIssue({ message }: { message?: string }) {
+  if (!message) return null
+  return <p className="text-xs text-destructive">{message}</p>
+}
+
+/**
+ * Validate form data using the same rules the client and server action enforce
+ * Use this to disable submission while the form has issues
+ */
+export function validateCodeRabbitReportForm(
+  data: CodeRabbitReportFormData,
+): ValidationResult {
+  return validateReportRequest(getCodeRabbitReportPayload(data))
+}
+
 export function getCodeRabbitReportPayload(data: CodeRabbitReportFormData) {
   const isCustomPrompt = data.promptTemplate === 'Custom'
 
@@ -406,16 +525,20 @@ export function getCodeRabbitReportPayload(data: CodeRabbitReportFormData) {
           .map((f) => ({
             parameter: f.parameter as FilterParameter,
             operator: f.operator as FilterOperator,
-            values: f.values.split('|').map((v) => v.trim()),
+            values: f.values
+              .split('|')
+              .map((v) => v.trim())
+              .filter(Boolean),
           }))
       : undefined
 
   return {
     from: data.fromDate,
     to: data.toDate,
-    promptTemplate: isCustomPrompt
-      ? undefined
-      : (data.promptTemplate as PromptTemplate),
+    promptTemplate:
+      isCustomPrompt || !data.promptTemplate
+        ? undefined
+        : (data.promptTemplate as PromptTemplate),
     prompt: isCustomPrompt ? data.customPrompt : undefined,
     groupBy: data.groupBy as GroupBy,
     subgroupBy:
@@ -423,6 +546,7 @@ export function getCodeRabbitReportPayload(data: CodeRabbitReportFormData) {
         ? (data.subgroupBy as GroupBy)
         : undefined,
     orgId: data.orgId || undefined,
+    timeZone: data.timeZone?.trim() || getLocalTimeZone(),
     parameters,
   }
 }
@@ -1,45 +1,227 @@
-import { useState, useCallback, useEffect } from 'react'
+import { useState, useCallback, useEffect, useRef } from 'react'
 import { createCodeRabbitClient } from '@/registry/default/lib/client'
 import {
   checkCodeRabbitConfig,
   generateReportAction,
 } from '@/registry/default/lib/actions'
+import type { ReportCache } from '@/registry/default/lib/cache'
+import {
+  generateChunked,
+  getChunkFailure,
+  type ChunkBy,
+  type ChunkProgress,
+} from '@/registry/default/lib/chunking'
+import type { GenerateAndStoreReportAction } from '@/registry/default/lib/generate-and-store'
+import {
+  CodeRabbitError,
+  toCodeRabbitErrorInfo,
+  type CodeRabbitErrorInfo,
+} from '@/registry/default/lib/errors'
+import { instrumentStorage } from '@/registry/default/lib/telemetry'
 import type {
   ReportGenerateRequest,
   ReportResult,
+  StoredReport,
 } from '@/registry/default/lib/types'
-import type { ReportStorageAdapter } from '@/registry/default/lib/storage-adapter'
+import {
+  markReportCancelled,
+  toReportRecord,
+  waitForReport,
+  type ReportStorageAdapter,
+} from '@/registry/default/lib/storage-adapter'
 
 export interface UseCodeRabbitOptions {
   apiKey?: string
   storage?: ReportStorageAdapter
   useServerAction?: boolean
+  /**
+   * Server action built with createGenerateAndStoreReportAction. The server
+   * creates and updates the stored report, so database credentials never
+   * reach the browser. `storage` is not written and `chunkBy` is ignored.
+   * `cancel()` stops waiting but the server still finishes the report.
+   */
+  generateAndStoreAction?: GenerateAndStoreReportAction
+  /**
+   * Read a stored report while following a background job (default:
+   * `storage.get`). Use a server action for server-only databases.
+   * Followed reports are resumed after a page reload.
+   */
+  getReport?: (reportId: string) => Promise<StoredReport | null>
+  /** Delay between reads while following a background job (default: 2000ms) */
+  pollInterval?: number
+  /**
+   * Fail with TIMEOUT when a background report is still pending this long after
+   * it was created, e.g. because its job was killed (default: 15 minutes)
+   */
+  reportTimeout?: number
+  /** Split long date ranges into week/month chunks generated separately */
+  chunkBy?: ChunkBy
+  /** Maximum chunks generated at the same time (default: 2) */
+  chunkConcurrency?: number
+  /** Reuse results for identical requests (e.g. a StorageCacheStore) */
+  cache?: ReportCache
   onSuccess?: (reportId: string | null, results?: ReportResult[]) => void
-  onError?: (error: string) => void
+  onError?: (error: string, info: CodeRabbitErrorInfo) => void
+  onCancel?: (reportId: string | null) => void
+}
+
+export interface GenerateReportHookOptions {
+  /** Skip the cache lookup for a forced refresh */
+  bypassCache?: boolean
+  /**
+   * Repeated submissions with the same key return the existing report ID
+   * (pending or completed) instead of creating a new storage record.
+   * Keys are shared by every hook on the page and kept in localStorage, so they
+   * survive reloads while the report is still completed or pending.
+   * Submissions that end without a stored report (failed, cancelled, or no
+   * storage configured) release the key so they can be retried.
+   */
+  idempotencyKey?: string
 }
 
 export interface UseCodeRabbitReturn {
-  generateReport: (request: ReportGenerateRequest) => Promise<string | null>
+  generateReport: (
+    request: ReportGenerateRequest,
+    options?: GenerateReportHookOptions,
+  ) => Promise<string | null>
   isGenerating: boolean
+  /** Number of API attempts made for the latest request (including retries) */
+  attempts: number
+  /** Chunk progress while generating with `chunkBy`, otherwise null */
+  chunkProgress: ChunkProgress | null
+  /**
+   * Position in the client's rate limiter queue (1 = next, 0 = sending)
+   * Only reported for direct client calls (`useServerAction: false`)
+   */
+  queuePosition: number | null
   error: string | null
+  /** Structured error with a stable `code` for branching in UI */
+  errorInfo: CodeRabbitErrorInfo | null
   isConfigured: boolean
   clearError: () => void
+  /** Abort the in-flight request and mark its stored report as cancelled */
+  cancel: () => void
+  /** Follow a pending stored report (e.g. a background job) until it finishes */
+  watchReport: (reportId: string) => Promise<string | null>
+  /** ID of the background report being followed, otherwise null */
+  pendingReportId: string | null
+  /**
+   * ID of the latest background report, kept after it finishes (until the next
+   * generation starts). Pass it to useReportProgress so the final event arrives.
+   */
+  backgroundReportId: string | null
+}
+
+/**
+ * Report followed by the hook, kept across page reloads
+ */
+const PENDING_REPORT_KEY = 'coderabbit:pending-report'
+
+const DEFAULT_REPORT_TIMEOUT_MS = 15 * 60 * 1000 // 15 minutes
+
+/**
+ * Idempotency keys in flight or done, shared by every hook instance on the page
+ */
+const idempotentReports = new Map<string, Promise<string | null>>()
+
+/**
+ * Report created for an idempotency key, kept across page reloads
+ */
+const IDEMPOTENCY_KEY_PREFIX = 'coderabbit:idempotency:'
+
+function getIdempotentReportId(key: string): string | null {
+  if (typeof window === 'undefined') return null
+  return localStorage.getItem(IDEMPOTENCY_KEY_PREFIX + key)
+}
+
+function setIdempotentReportId(key: string, reportId: string | null): void {
+  if (typeof window === 'undefined') return
+  if (reportId) localStorage.setItem(IDEMPOTENCY_KEY_PREFIX + key, reportId)
+  else localStorage.removeItem(IDEMPOTENCY_KEY_PREFIX + key)
+}
+
+function setPendingReport(reportId: string | null): void {
+  if (typeof window === 'undefined') return
+  if (reportId) localStorage.setItem(PENDING_REPORT_KEY, reportId)
+  else localStorage.removeItem(PENDING_REPORT_KEY)
+}
+
+/**
+ * Results of a finished stored report, or the error it ended with
+ */
+function getStoredResults(
+  report: StoredReport | null,
+  reportId: string,
+): ReportResult[] {
+  if (report?.status === 'completed') return report.results
+  if (report?.status === 'pending') {
+    throw new CodeRabbitError(
+      'TIMEOUT',
+      `Report ${reportId} is still pending. Its job may have stopped.`,
+    )
+  }
+  if (report?.status === 'cancelled') {
+    throw new CodeRabbitError(
+      'CANCELLED',
+      'CodeRabbit report generation was cancelled',
+    )
+  }
+  throw new CodeRabbitError(
+    'UNKNOWN',
+    report?.error ?? `Report ${reportId} was not found`,
+  )
+}
+
+/**
+ * Reject with a CANCELLED error as soon as the signal aborts
+ * Server actions cannot be aborted, so their eventual response is ignored
+ */
+function withAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () =>
+      reject(
+        new CodeRabbitError(
+          'CANCELLED',
+          'CodeRabbit report generation was cancelled',
+        ),
+      )
+
+    if (signal.aborted) return onAbort()
+    signal.addEventListener('abort', onAbort, { once: true })
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort))
+  })
 }
 
 export function useCodeRabbit(
   options?: UseCodeRabbitOptions,
 ): UseCodeRabbitReturn {
   const [isGenerating, setIsGenerating] = useState(false)
-  const [error, setError] = useState<string | null>(null)
+  const [errorInfo, setErrorInfo] = useState<CodeRabbitErrorInfo | null>(
+    null,
+  )
+  const [attempts, setAttempts] = useState(0)
+  const [chunkProgress, setChunkProgress] = useState<ChunkProgress | null>(
+    null,
+  )
+  const [queuePosition, setQueuePosition] = useState<number | null>(null)
+  const [pendingReportId, setPendingReportId] = useState<string | null>(null)
+  const [backgroundReportId, setBackgroundReportId] = useState<string | null>(
+    null,
+  )
   const [isConfigured, setIsConfigured] = useState(true) // Optimistic default
+  const abortControllerRef = useRef<AbortController | null>(null)
 
   const useServerAction = options?.useServerAction !== false // Default to true
 
   // Check configuration status on mount using server action
   useEffect(() => {
     if (useServerAction) {
-      checkCodeRabbitConfig().then(({ isConfigured }) => {
+      checkCodeRabbitConfig().then(({ isConfigured, error }) => {
         setIsConfigured(isConfigured)
+        // e.g. FORBIDDEN from the server's authorizer
+        if (error) setErrorInfo(error)
       })
     } else {
       // Client-side check (only works if apiKey is passed directly)
@@ -49,54 +231,235 @@ export function useCodeRabbit(
   }, [useServerAction, options?.apiKey])
 
   const clearError = useCallback(() => {
-    setError(null)
+    setErrorInfo(null)
   }, [])
 
-  const generateReport = useCallback(
-    async (request: ReportGenerateRequest): Promise<string | null> => {
+  const cancel = useCallback(() => {
+    if (!abortControllerRef.current) return
+    abortControllerRef.current.abort()
+    setIsGenerating(false)
+  }, [])
+
+  /**
+   * Poll a stored report until it leaves `pending`
+   */
+  const followReport = useCallback(
+    async (reportId: string, signal: AbortSignal): Promise<ReportResult[]> => {
+      const storage = options?.storage
+      const getReport =
+        options?.getReport ?? (storage && ((id: string) => storage.get(id)))
+      if (!getReport) {
+        throw new CodeRabbitError(
+          'NOT_CONFIGURED',
+          'Pass getReport or storage to useCodeRabbit to follow background reports',
+        )
+      }
+
+      setPendingReport(reportId)
+      setPendingReportId(reportId)
+      setBackgroundReportId(reportId)
+      try {
+        const report = await withAbort(
+          waitForReport(getReport, reportId, {
+            interval: options?.pollInterval,
+            timeout: options?.reportTimeout ?? DEFAULT_REPORT_TIMEOUT_MS,
+            signal,
+          }),
+          signal,
+        )
+        return getStoredResults(report, reportId)
+      } finally {
+        setPendingReport(null)
+        setPendingReportId(null)
+      }
+    },
+    [options],
+  )
+
+  const watchReport = useCallback(
+    async (reportId: string): Promise<string | null> => {
+      setIsGenerating(true)
+      setErrorInfo(null)
+
+      const controller = new AbortController()
+      abortControllerRef.current = controller
+
+      try {
+        const results = await followReport(reportId, controller.signal)
+        options?.onSuccess?.(reportId, results)
+        return reportId
+      } catch (err) {
+        const info = toCodeRabbitErrorInfo(err, String(err))
+        if (info.code === 'CANCELLED') {
+          options?.onCancel?.(reportId)
+        } else {
+          setErrorInfo(info)
+          options?.onError?.(info.message, info)
+        }
+        return null
+      } finally {
+        if (abortControllerRef.current === controller) {
+          abortControllerRef.current = null
+        }
+        setIsGenerating(false)
+      }
+    },
+    [followReport, options],
+  )
+
+  // Resume a report that was still pending when the page was left
+  const resumedRef = useRef(false)
+  useEffect(() => {
+    if (resumedRef.current || typeof window === 'undefined') return
+    resumedRef.current = true
+
+    const reportId = localStorage.getItem(PENDING_REPORT_KEY)
+    if (!reportId) return
+
+    // Without a way to read reports this instance can't resume, so drop the key
+    // instead of failing with NOT_CONFIGURED on every mount
+    if (!options?.getReport && !options?.storage) {
+      setPendingReport(null)
+      return
+    }
+    void watchReport(reportId)
+  }, [watchReport, options?.getReport, options?.storage])
+
+  const runReport = useCallback(
+    async (
+      request: ReportGenerateRequest,
+      generateOptions?: GenerateReportHookOptions,
+      // Called as soon as the stored report exists
+      onReportId?: (reportId: string) => void,
+    ): Promise<string | null> => {
       setIsGenerating(true)
-      setError(null)
+      setErrorInfo(null)
+      setAttempts(0)
+      setChunkProgress(null)
+      setQueuePosition(null)
+      setBackgroundReportId(null)
+
+      const controller = new AbortController()
+      abortControllerRef.current = controller
 
       const startTime = Date.now()
+      const generateAndStoreAction = options?.generateAndStoreAction
+      // The server action owns persistence when it's used
+      const storage =
+        !generateAndStoreAction &&
+        options?.storage &&
+        instrumentStorage(options.storage)
       let reportId: string | null = null
+      const record = toReportRecord(request)
 
       try {
+        const cached =
+          options?.cache && !generateOptions?.bypassCache
+            ? await options.cache.get(request).catch(() => null)
+            : null
+
+        if (cached) {
+          // Storage-backed hits point at an existing report, others get a record
+          reportId = cached.reportId ?? null
+          if (storage && !reportId) {
+            reportId = await storage.create({
+              ...record,
+              status: 'completed',
+              results: cached.results,
+              durationMs: 0,
+            })
+          }
+
+          options?.onSuccess?.(reportId, cached.results)
+
+          return reportId
+        }
+
         // Create pending record if storage available
-        if (options?.storage) {
-          reportId = await options.storage.create({
-            fromDate: request.from,
-            toDate: request.to,
-            promptTemplate: request.promptTemplate,
-            prompt: request.prompt,
-            groupBy: request.groupBy,
-            subgroupBy: request.subgroupBy,
-            orgId: request.orgId,
-            parameters: request.parameters,
+        if (storage) {
+          reportId = await storage.create({
+            ...record,
             status: 'pending',
             results: [],
           })
+          onReportId?.(reportId)
         }
 
-        let results: ReportResult[]
+        const generate = async (
+          chunk: ReportGenerateRequest,
+        ): Promise<ReportResult[]> => {
+          if (useServerAction) {
+            // Use server action (recommended for Next.js)
+            const response = await withAbort(
+              generateReportAction(chunk),
+              controller.signal,
+            )
+            setAttempts((count) => count + (response.attempts ?? 0))
+            if (response.error) {
+              throw new CodeRabbitError(
+                response.error.code,
+                response.error.message,
+              )
+            }
+            return response.data!
+          }
+
+          // Direct client-side API call (requires apiKey to be passed)
+          const client = createCodeRabbitClient({ apiKey: options?.apiKey })
+          return client.generateReport(chunk, {
+            signal: controller.signal,
+            onAttempt: () => setAttempts((count) => count + 1),
+            onQueuePosition: setQueuePosition,
+          })
+        }
 
-        if (useServerAction) {
-          // Use server action (recommended for Next.js)
-          const response = await generateReportAction(request)
+        const generateAndStore = async (
+          action: GenerateAndStoreReportAction,
+        ): Promise<ReportResult[]> => {
+          const response = await withAbort(action(request), controller.signal)
+          setAttempts(response.attempts ?? 0)
+          reportId = response.reportId ?? null
+          if (reportId) onReportId?.(reportId)
           if (response.error) {
-            throw new Error(response.error)
+            throw new CodeRabbitError(
+              response.error.code,
+              response.error.message,
+            )
+          }
+          // Background job: the server returned before generating
+          if (response.status === 'pending' && response.reportId) {
+            return followReport(response.reportId, controller.signal)
           }
-          results = response.data!
+          return response.data!
+        }
+
+        let results: ReportResult[]
+        if (generateAndStoreAction) {
+          results = await generateAndStore(generateAndStoreAction)
+        } else if (options?.chunkBy) {
+          const chunked = await generateChunked(request, generate, {
+            chunkBy: options.chunkBy,
+            concurrency: options.chunkConcurrency,
+            signal: controller.signal,
+            onProgress: setChunkProgress,
+          })
+          // Failed date ranges fail the report instead of storing partial results
+          const failure = getChunkFailure(chunked.chunks)
+          if (failure) throw failure
+          results = chunked.results
         } else {
-          // Direct client-side API call (requires apiKey to be passed)
-          const client = createCodeRabbitClient({ apiKey: options?.apiKey })
-          results = await client.generateReport(request)
+          results = await generate(request)
         }
 
         const durationMs = Date.now() - startTime
 
+        await options?.cache
+          ?.set(request, results, reportId ?? undefined)
+          .catch(() => {})
+
         // Update with results if storage available
-        if (options?.storage && reportId) {
-          await options.storage.updateSuccess(reportId, results, durationMs)
+        if (storage && reportId) {
+          await storage.updateSuccess(reportId, results, durationMs)
         }
 
         // Call success callback
@@ -105,31 +468,114 @@ export function useCodeRabbit(
         return reportId
       } catch (err) {
         const durationMs = Date.now() - startTime
-        const errorMsg = err instanceof Error ? err.message : String(err)
+        const info = toCodeRabbitErrorInfo(err, String(err))
 
-        setError(errorMsg)
+        if (info.code === 'CANCELLED') {
+          // A failed write (e.g. an old status constraint) must not escape cancel()
+          if (storage && reportId) {
+            await markReportCancelled(storage, reportId, durationMs).catch(
+              () => {},
+            )
+          }
+
+          options?.onCancel?.(reportId)
+
+          return null
+        }
+
+        setErrorInfo(info)
 
         // Update with error if storage available
-        if (options?.storage && reportId) {
-          await options.storage.updateFailure(reportId, errorMsg, durationMs)
+        if (storage && reportId) {
+          await storage.updateFailure(
+            reportId,
+            info.message,
+            durationMs,
+            info.code,
+          )
         }
 
         // Call error callback
-        options?.onError?.(errorMsg)
+        options?.onError?.(info.message, info)
 
         return null
       } finally {
+        if (abortControllerRef.current === controller) {
+          abortControllerRef.current = null
+        }
+        setQueuePosition(null)
         setIsGenerating(false)
       }
     },
-    [useServerAction, options],
+    [useServerAction, options, followReport],
+  )
+
+  /**
+   * Whether a stored report can stand in for a repeated submission: completed,
+   * or pending and not yet past reportTimeout (e.g. its page was reloaded)
+   */
+  const isReusableReport = useCallback(
+    async (reportId: string): Promise<boolean> => {
+      const storage = options?.storage
+      const getReport =
+        options?.getReport ?? (storage && ((id: string) => storage.get(id)))
+      // Nothing to check against: trust the recorded ID
+      if (!getReport) return true
+
+      const report = await getReport(reportId).catch(() => null)
+      if (report?.status === 'completed') return true
+      return (
+        report?.status === 'pending' &&
+        Date.now() - report.createdAt <
+          (options?.reportTimeout ?? DEFAULT_REPORT_TIMEOUT_MS)
+      )
+    },
+    [options],
+  )
+
+  const generateReport = useCallback(
+    (
+      request: ReportGenerateRequest,
+      generateOptions?: GenerateReportHookOptions,
+    ): Promise<string | null> => {
+      const key = generateOptions?.idempotencyKey
+      if (!key) return runReport(request, generateOptions)
+
+      const existing = idempotentReports.get(key)
+      if (existing) return existing
+
+      const pending = (async () => {
+        // A report created before a reload is reused while it's still live
+        const storedId = getIdempotentReportId(key)
+        if (storedId && (await isReusableReport(storedId))) return storedId
+
+        const reportId = await runReport(request, generateOptions, (id) =>
+          setIdempotentReportId(key, id),
+        )
+        setIdempotentReportId(key, reportId)
+        if (reportId === null) idempotentReports.delete(key)
+        return reportId
+      })()
+      idempotentReports.set(key, pending)
+
+      return pending
+    },
+    [runReport, isReusableReport],
   )
 
   return {
     generateReport,
     isGenerating,
-    error,
+    attempts,
+    chunkProgress,
+    queuePosition,
+    error: errorInfo?.message ?? null,
+    errorInfo,
     isConfigured,
     clearError,
+    cancel,
+    watchReport,
+    pendingReportId,
+    backgroundReportId,
   }
 }
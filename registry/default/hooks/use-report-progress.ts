@@ -0,0 +1,151 @@
+import { useState, useEffect, useRef } from 'react'
+import type { ChunkProgress } from '@/registry/default/lib/chunking'
+import {
+  toCodeRabbitErrorInfo,
+  type CodeRabbitErrorInfo,
+} from '@/registry/default/lib/errors'
+import {
+  followReportProgress,
+  type ReportProgressEvent,
+} from '@/registry/default/lib/report-progress'
+import type { ReportStatus } from '@/registry/default/lib/types'
+
+export interface UseReportProgressOptions {
+  /** Where createReportHandler is mounted (default: `/api/coderabbit`) */
+  basePath?: string
+  /** Extra request headers (e.g. authorization) */
+  headers?: HeadersInit
+  /** Called for every event, in order */
+  onEvent?: (event: ReportProgressEvent) => void
+}
+
+export interface UseReportProgressReturn {
+  /** Events received for the current report, in order */
+  events: ReportProgressEvent[]
+  latest: ReportProgressEvent | null
+  /** Status after the latest event (null before the first one) */
+  status: ReportStatus | null
+  /** Latest API attempt number (0 until the first attempt) */
+  attempt: number
+  /** Chunk progress when the server generates with `chunkBy`, otherwise null */
+  chunkProgress: ChunkProgress | null
+  /** The report's failure, or why the stream could not be opened */
+  errorInfo: CodeRabbitErrorInfo | null
+  /** The report finished (completed, failed or cancelled) */
+  isDone: boolean
+}
+
+/**
+ * Events and stream error, tagged with the report they belong to
+ */
+interface ProgressState {
+  reportId: string | null
+  events: ReportProgressEvent[]
+  streamError: CodeRabbitErrorInfo | null
+}
+
+const EMPTY_PROGRESS: ProgressState = {
+  reportId: null,
+  events: [],
+  streamError: null,
+}
+
+function getStatus(event: ReportProgressEvent | null): ReportStatus | null {
+  if (!event) return null
+  if (
+    event.type === 'completed' ||
+    event.type === 'failed' ||
+    event.type === 'cancelled'
+  ) {
+    return event.type
+  }
+  return 'pending'
+}
+
+/**
+ * Stream a stored report's progress from createReportHandler's
+ * `GET /reports/:id/events` route
+ *
+ * Pass null to stop following. The stream reconnects when dropped and closes
+ * once the report finishes.
+ *
+ * @example
+ * ```tsx
+ * const { backgroundReportId } = useCodeRabbit({ generateAndStoreAction, getReport })
+ * const { status, attempt, chunkProgress } = useReportProgress(backgroundReportId)
+ * ```
+ */
+export function useReportProgress(
+  reportId: string | null,
+  options?: UseReportProgressOptions,
+): UseReportProgressReturn {
+  const [progress, setProgress] = useState<ProgressState>(EMPTY_PROGRESS)
+
+  // Read the latest headers and callback without reopening the stream
+  const optionsRef = useRef(options)
+  useEffect(() => {
+    optionsRef.current = options
+  })
+
+  const basePath = (options?.basePath ?? '/api/coderabbit').replace(/\/+$/, '')
+
+  useEffect(() => {
+    if (!reportId) return
+
+    const controller = new AbortController()
+    const url = `${basePath}/reports/${encodeURIComponent(reportId)}/events`
+
+    followReportProgress(url, {
+      headers: optionsRef.current?.headers,
+      signal: controller.signal,
+      onEvent: (event) => {
+        setProgress((current) => ({
+          reportId,
+          events:
+            current.reportId === reportId
+              ? [...current.events, event]
+              : [event],
+          streamError: null,
+        }))
+        optionsRef.current?.onEvent?.(event)
+      },
+    }).catch((err) => {
+      if (controller.signal.aborted) return
+      setProgress((current) => ({
+        reportId,
+        events: current.reportId === reportId ? current.events : [],
+        streamError: toCodeRabbitErrorInfo(err, String(err)),
+      }))
+    })
+
+    return () => controller.abort()
+  }, [reportId, basePath])
+
+  // State left over from a previous report is ignored
+  const { events, streamError } =
+    progress.reportId === reportId ? progress : EMPTY_PROGRESS
+  const latest = events[events.length - 1] ?? null
+  const status = getStatus(latest)
+
+  let attempt = 0
+  let chunkProgress: ChunkProgress | null = null
+  let failure: CodeRabbitErrorInfo | null = null
+  for (const event of events) {
+    if (event.type === 'attempt') attempt = event.attempt
+    if (event.type === 'chunk_progress') {
+      const { completed, failed, total } = event
+      chunkProgress = { completed, failed, total }
+    }
+    if (event.type === 'failed') failure = event.error
+  }
+
+  return {
+    events,
+    latest,
+    status,
+    attempt,
+    chunkProgress,
+    errorInfo: failure ?? streamError,
+    isDone: status !== null && status !== 'pending',
+  }
+}
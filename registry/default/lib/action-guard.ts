@@ -0,0 +1,58 @@
+/**
+ * CodeRabbit Action Guard
+ * Validation and authorization for server actions. Not a server action module,
+ * so nothing here is callable from the browser.
+ */
+
+import { headers } from 'next/headers'
+import {
+  authorizeReportRequest,
+  getReportAuthorizer,
+  type AuthorizationAction,
+  type ReportAuthorization,
+} from '@/registry/default/lib/authorization'
+import { toCodeRabbitErrorInfo } from '@/registry/default/lib/errors'
+import type { GenerateReportActionResult } from '@/registry/default/lib/report-jobs'
+import type { ReportGenerateRequest } from '@/registry/default/lib/types'
+import {
+  formatValidationIssues,
+  validateReportRequest,
+} from '@/registry/default/lib/validation'
+
+/**
+ * Run the registered authorizer (if any) with the incoming request's headers
+ */
+export async function authorizeAction(
+  action: AuthorizationAction,
+  request?: ReportGenerateRequest,
+): Promise<ReportAuthorization | null> {
+  if (!getReportAuthorizer()) return null
+  return authorizeReportRequest(request, { action, headers: await headers() })
+}
+
+/**
+ * Validate and authorize a report request received by a server action
+ * Returns the error result to send back, or null when the request may proceed.
+ */
+export async function guardReportRequest(
+  request: ReportGenerateRequest,
+): Promise<GenerateReportActionResult | null> {
+  const { valid, issues } = validateReportRequest(request)
+  if (!valid) {
+    return {
+      error: {
+        code: 'INVALID_PARAMETER',
+        message: `Invalid report request: ${formatValidationIssues(issues)}`,
+      },
+      issues,
+    }
+  }
+
+  try {
+    await authorizeAction('generateReport', request)
+  } catch (err) {
+    return { error: toCodeRabbitErrorInfo(err) }
+  }
+
+  return null
+}
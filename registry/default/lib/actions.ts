@@ -5,31 +5,84 @@
  * Handles API calls server-side where CODERABBIT_API_KEY is available
  */
 
+import {
+  authorizeAction,
+  guardReportRequest,
+} from '@/registry/default/lib/action-guard'
+import {
+  getOrganizationKeyStatus,
+  type CodeRabbitConfigStatus,
+} from '@/registry/default/lib/api-keys'
+import type { ReportAuthorization } from '@/registry/default/lib/authorization'
 import { createCodeRabbitClient } from '@/registry/default/lib/client'
-import type {
-  ReportGenerateRequest,
-  ReportResult,
-} from '@/registry/default/lib/types'
+import { toCodeRabbitErrorInfo } from '@/registry/default/lib/errors'
+import {
+  generateReportResult,
+  type GenerateReportActionResult,
+} from '@/registry/default/lib/report-jobs'
+import {
+  getRequestAttributes,
+  getResultAttributes,
+  withSpan,
+} from '@/registry/default/lib/telemetry'
+import type { ReportGenerateRequest } from '@/registry/default/lib/types'
+
+export type { CodeRabbitConfigStatus, GenerateReportActionResult }
 
 /**
  * Check if CodeRabbit API is configured (server-side)
  * Call this from client components to check configuration status
+ * Only the organizations passed in are reported, limited to the authorizer's
+ * `orgIds`. A scope with `listOrgIds` also lists every CODERABBIT_API_KEY_<ORG>.
+ *
+ * @example
+ * ```ts
+ * // CODERABBIT_API_KEY_ACME=... in .env.local
+ * await checkCodeRabbitConfig(['acme', 'globex'])
+ * // { isConfigured: true, organizations: { acme: true, globex: false } }
+ * ```
  */
-export async function checkCodeRabbitConfig(): Promise<{ isConfigured: boolean }> {
+export async function checkCodeRabbitConfig(
+  orgIds?: string[]
+): Promise<CodeRabbitConfigStatus> {
+  let scope: ReportAuthorization | null
+  try {
+    scope = await authorizeAction('checkConfig')
+  } catch (err) {
+    return {
+      isConfigured: false,
+      organizations: {},
+      error: toCodeRabbitErrorInfo(err),
+    }
+  }
+
   const client = createCodeRabbitClient()
-  return { isConfigured: client.isConfigured() }
+  const organizations = await getOrganizationKeyStatus(
+    (orgId) => client.hasApiKey(orgId),
+    orgIds,
+    scope
+  )
+
+  return { isConfigured: client.isConfigured(), organizations }
 }
 
 /**
  * Generate a CodeRabbit report (server-side)
  * This runs on the server where CODERABBIT_API_KEY is available
+ * Errors are returned as a serializable { code, message } object
+ * Invalid requests are rejected before any API call, with field-level `issues`
+ * Callers rejected by the registered authorizer get a FORBIDDEN error
+ * Concurrent identical requests on the same server instance are coalesced
+ * Always waits for the report: it has no storage to hold a pending one. For
+ * job mode (a `pending` report ID returned right away), use
+ * createGenerateAndStoreReportAction with `runInBackground`.
  *
  * @example
  * ```tsx
  * 'use client'
  * import { generateReportAction } from '@/lib/actions'
  *
- * const { data, error } = await generateReportAction({
+ * const { data, error, attempts } = await generateReportAction({
  *   from: '2024-01-01',
  *   to: '2024-01-31',
  *   promptTemplate: 'Sprint Report'
@@ -38,21 +91,31 @@ export async function checkCodeRabbitConfig(): Promise<{ isConfigured: boolean }
  */
 export async function generateReportAction(
   request: ReportGenerateRequest
-): Promise<{ data?: ReportResult[]; error?: string }> {
-  try {
-    const client = createCodeRabbitClient()
+): Promise<GenerateReportActionResult> {
+  return withSpan(
+    'coderabbit.action.generate_report',
+    getRequestAttributes(request),
+    async (span) => {
+      const result = await generateReportCoalesced(request)
 
-    if (!client.isConfigured()) {
-      return {
-        error: 'CODERABBIT_API_KEY not configured. Set the environment variable in your .env.local file.',
-      }
-    }
+      span.setAttributes({ 'coderabbit.attempts': result.attempts ?? 0 })
+      if (result.data) span.setAttributes(getResultAttributes(result.data))
 
-    const results = await client.generateReport(request)
-    return { data: results }
-  } catch (err) {
-    return {
-      error: err instanceof Error ? err.message : 'Failed to generate report',
-    }
-  }
+      return result
+    },
+    { getError: (result) => result.error }
+  )
+}
+
+/**
+ * Validate and authorize, then share one generation between identical
+ * concurrent requests
+ */
+async function generateReportCoalesced(
+  request: ReportGenerateRequest
+): Promise<GenerateReportActionResult> {
+  const rejected = await guardReportRequest(request)
+  if (rejected) return rejected
+
+  return generateReportResult(request)
 }
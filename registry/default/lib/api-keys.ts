@@ -0,0 +1,104 @@
+/**
+ * CodeRabbit API Keys
+ * Per-organization key resolution and the CODERABBIT_API_KEY_<ORG> env convention
+ */
+
+import type { CodeRabbitErrorInfo } from '@/registry/default/lib/errors'
+
+const API_KEY_ENV = 'CODERABBIT_API_KEY'
+const ORG_API_KEY_ENV_PREFIX = `${API_KEY_ENV}_`
+
+/**
+ * Resolve the API key for an organization (undefined = requests without orgId)
+ * Return null or undefined to fall through to the next source.
+ */
+export type ApiKeyResolver = (
+  orgId: string | undefined,
+) => string | null | undefined | Promise<string | null | undefined>
+
+function readEnv(): Record<string, string | undefined> {
+  if (typeof process !== 'undefined' && process.env) {
+    return process.env
+  }
+  return {}
+}
+
+/**
+ * Environment variable holding the key for an organization
+ *
+ * @example
+ * ```ts
+ * getApiKeyEnvName() // 'CODERABBIT_API_KEY'
+ * getApiKeyEnvName('acme-corp') // 'CODERABBIT_API_KEY_ACME_CORP'
+ * ```
+ */
+export function getApiKeyEnvName(orgId?: string): string {
+  if (!orgId?.trim()) return API_KEY_ENV
+  return `${ORG_API_KEY_ENV_PREFIX}${orgId
+    .trim()
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, '_')}`
+}
+
+/**
+ * Read a key from the environment (works across runtimes)
+ */
+export function getApiKeyFromEnv(orgId?: string): string | null {
+  return readEnv()[getApiKeyEnvName(orgId)] || null
+}
+
+/**
+ * Organizations with a CODERABBIT_API_KEY_<ORG> variable set
+ * Names are the normalized env suffixes (e.g. `ACME_CORP`)
+ */
+export function listOrgApiKeyEnvNames(): string[] {
+  return Object.entries(readEnv())
+    .filter(
+      ([name, value]) => name.startsWith(ORG_API_KEY_ENV_PREFIX) && value,
+    )
+    .map(([name]) => name.slice(ORG_API_KEY_ENV_PREFIX.length))
+    .sort()
+}
+
+/**
+ * Configuration status returned by checkCodeRabbitConfig and GET /config
+ */
+export interface CodeRabbitConfigStatus {
+  /** A default key or at least one org key is available */
+  isConfigured: boolean
+  /**
+   * Per-org status of the `orgIds` passed in (true if a key resolves for that
+   * org), plus every CODERABBIT_API_KEY_<ORG> found (by env suffix) when the
+   * caller's scope has `listOrgIds`
+   */
+  organizations: Record<string, boolean>
+  /** Set when the registered authorizer rejected the caller */
+  error?: CodeRabbitErrorInfo
+}
+
+/**
+ * Which organizations have a key: `orgIds` (default: the scope's `orgIds`),
+ * checked with `hasApiKey`. Organizations outside the scope's `orgIds` are
+ * skipped. Every CODERABBIT_API_KEY_<ORG> found (by env suffix) is only
+ * listed when the scope sets `listOrgIds` without limiting `orgIds`.
+ */
+export async function getOrganizationKeyStatus(
+  hasApiKey: (orgId: string) => Promise<boolean>,
+  orgIds?: string[],
+  scope?: { orgIds?: string[]; listOrgIds?: boolean } | null,
+): Promise<Record<string, boolean>> {
+  const organizations: Record<string, boolean> = {}
+  const allowedOrgIds = scope?.orgIds
+
+  if (scope?.listOrgIds && !allowedOrgIds) {
+    for (const name of listOrgApiKeyEnvNames()) {
+      organizations[name] = true
+    }
+  }
+  for (const orgId of orgIds ?? allowedOrgIds ?? []) {
+    if (allowedOrgIds && !allowedOrgIds.includes(orgId)) continue
+    organizations[orgId] = await hasApiKey(orgId)
+  }
+
+  return organizations
+}
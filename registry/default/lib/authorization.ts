@@ -0,0 +1,181 @@
+/**
+ * CodeRabbit Authorization
+ * Decide who may generate reports, for which organizations and filter values
+ */
+
+import { CodeRabbitError } from '@/registry/default/lib/errors'
+import type {
+  FilterParameter,
+  ReportGenerateRequest,
+} from '@/registry/default/lib/types'
+
+/**
+ * Server entry point being authorized
+ * The report routes of createReportHandler add list, get and delete.
+ */
+export type AuthorizationAction =
+  | 'generateReport'
+  | 'checkConfig'
+  | 'listReports'
+  | 'getReport'
+  | 'deleteReport'
+
+export interface AuthorizationContext {
+  action: AuthorizationAction
+  /** Headers of the incoming request (cookies, authorization, etc.) */
+  headers: Headers
+}
+
+/**
+ * What an authorized caller may request
+ */
+export interface ReportAuthorization {
+  /**
+   * Organizations the caller may use. When set, requests must include one of
+   * these as `orgId`, checkCodeRabbitConfig only reports these and stored
+   * reports of other organizations are hidden.
+   */
+  orgIds?: string[]
+  /**
+   * Let checkCodeRabbitConfig list every CODERABBIT_API_KEY_<ORG> found, not
+   * just the organizations asked about. Ignored when `orgIds` is set.
+   */
+  listOrgIds?: boolean
+  /**
+   * Allowed values per filter parameter. When a parameter is listed, requests
+   * must filter it with `IN` or `ALL` using only these values.
+   */
+  filterValues?: Partial<Record<FilterParameter, string[]>>
+}
+
+/**
+ * `true` allows everything, `false` rejects with FORBIDDEN and an object
+ * allows the call within that scope. Throw a CodeRabbitError (e.g.
+ * UNAUTHORIZED) to reject with a different code or message.
+ * `request` is undefined for every action except generateReport.
+ */
+export type AuthorizationResult = boolean | ReportAuthorization
+
+export type ReportAuthorizer = (
+  request: ReportGenerateRequest | undefined,
+  context: AuthorizationContext,
+) => AuthorizationResult | Promise<AuthorizationResult>
+
+/**
+ * Kept on globalThis: Next.js can load this module more than once (e.g. once
+ * for instrumentation.ts and once for server actions), and a per-module
+ * variable would leave the other copies unguarded.
+ */
+const AUTHORIZER_KEY = Symbol.for('coderabbit.authorization.authorizer')
+
+const authorizerGlobal = globalThis as typeof globalThis & {
+  [AUTHORIZER_KEY]?: ReportAuthorizer | null
+}
+
+/**
+ * Guard generateReportAction, checkCodeRabbitConfig and the REST handler.
+ * Pass null to remove it.
+ *
+ * Without an authorizer there is no authorization: anyone who can reach your
+ * app can generate reports and read stored ones.
+ *
+ * @example
+ * ```ts
+ * // instrumentation.ts or any server module loaded at startup
+ * setReportAuthorizer(async (request, { headers }) => {
+ *   const user = await getUser(headers.get('cookie'))
+ *   if (!user) return false
+ *   return {
+ *     orgIds: user.orgIds,
+ *     filterValues: { REPOSITORY: user.repositories },
+ *   }
+ * })
+ * ```
+ */
+export function setReportAuthorizer(authorizer: ReportAuthorizer | null): void {
+  authorizerGlobal[AUTHORIZER_KEY] = authorizer
+}
+
+/**
+ * The authorizer set with setReportAuthorizer, if any
+ */
+export function getReportAuthorizer(): ReportAuthorizer | null {
+  return authorizerGlobal[AUTHORIZER_KEY] ?? null
+}
+
+function forbidden(message: string): CodeRabbitError {
+  return new CodeRabbitError('FORBIDDEN', message, { status: 403 })
+}
+
+/**
+ * Why a request falls outside a scope (null when it doesn't)
+ */
+export function getScopeViolation(
+  request: ReportGenerateRequest,
+  scope: ReportAuthorization,
+): string | null {
+  if (scope.orgIds && !scope.orgIds.includes(request.orgId ?? '')) {
+    return request.orgId
+      ? `Organization "${request.orgId}" is not allowed`
+      : 'An organization ID is required'
+  }
+
+  const entries = Object.entries(scope.filterValues ?? {}) as [
+    FilterParameter,
+    string[],
+  ][]
+
+  for (const [parameter, allowed] of entries) {
+    const filters = (request.parameters ?? []).filter(
+      (filter) => filter.parameter === parameter && filter.operator !== 'NOT_IN',
+    )
+    if (filters.length === 0) {
+      return `A ${parameter} filter is required`
+    }
+
+    const denied = filters
+      .flatMap((filter) => filter.values)
+      .filter((value) => !allowed.includes(value))
+    if (denied.length > 0) {
+      return `${parameter} values not allowed: ${denied.join(', ')}`
+    }
+  }
+
+  return null
+}
+
+/**
+ * Whether a stored report belongs to an organization in scope
+ */
+export function isReportInScope(
+  report: { orgId?: string },
+  scope: ReportAuthorization | null,
+): boolean {
+  return !scope?.orgIds || scope.orgIds.includes(report.orgId ?? '')
+}
+
+/**
+ * Run the registered authorizer
+ * Returns the caller's scope (null when no authorizer is set, or it returned true)
+ *
+ * @throws CodeRabbitError FORBIDDEN when the call is rejected or the request is out of scope
+ */
+export async function authorizeReportRequest(
+  request: ReportGenerateRequest | undefined,
+  context: AuthorizationContext,
+): Promise<ReportAuthorization | null> {
+  const authorizer = getReportAuthorizer()
+  if (!authorizer) return null
+
+  const result = await authorizer(request, context)
+  // Anything but true or a scope (e.g. a missing return) rejects the call
+  if (!result) {
+    throw forbidden('Not authorized to generate CodeRabbit reports')
+  }
+  if (result === true) return null
+
+  const violation = request && getScopeViolation(request, result)
+  if (violation) throw forbidden(violation)
+
+  return result
+}
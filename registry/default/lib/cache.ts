@@ -0,0 +1,243 @@
+/**
+ * CodeRabbit Report Cache
+ * Reuse results for identical report requests instead of paying the full latency
+ */
+
+import {
+  toReportRequest,
+  type ReportStorageAdapter,
+} from '@/registry/default/lib/storage-adapter'
+import type {
+  FilterConfig,
+  ReportGenerateRequest,
+  ReportResult,
+} from '@/registry/default/lib/types'
+
+const DEFAULT_TTL_MS = 60 * 60 * 1000 // 1 hour
+const DEFAULT_MAX_ENTRIES = 100
+const DEFAULT_STORAGE_LOOKBACK = 50
+
+/**
+ * Cached results for a request
+ */
+export interface CacheEntry {
+  results: ReportResult[]
+  cachedAt: number
+  /** Stored report the results came from (storage-backed caches only) */
+  reportId?: string
+}
+
+/**
+ * Pluggable cache backend
+ *
+ * `get` receives the normalized request alongside the key so stores that can't
+ * index by key (e.g. an existing reports table) can match on parameters.
+ */
+export interface CacheStore {
+  get(
+    key: string,
+    request: ReportGenerateRequest,
+    ttlMs: number,
+  ): Promise<CacheEntry | null>
+  set(key: string, entry: CacheEntry): Promise<void>
+  delete(key: string): Promise<void>
+}
+
+function normalizeFilters(parameters?: FilterConfig[]): FilterConfig[] {
+  return (parameters ?? [])
+    .map((filter) => ({
+      parameter: filter.parameter,
+      operator: filter.operator,
+      values: Array.from(
+        new Set(filter.values.map((value) => value.trim()).filter(Boolean)),
+      ).sort(),
+    }))
+    .sort((a, b) =>
+      `${a.parameter}:${a.operator}:${a.values.join('|')}`.localeCompare(
+        `${b.parameter}:${b.operator}:${b.values.join('|')}`,
+      ),
+    )
+}
+
+/**
+ * Normalize a request so equivalent requests compare equal
+ *
+ * Applies API defaults, trims strings, and sorts/dedupes filters and values.
+ * `Custom` is dropped in favor of the prompt itself.
+ */
+export function normalizeReportRequest(
+  request: ReportGenerateRequest,
+): ReportGenerateRequest {
+  const prompt = request.prompt?.trim() || undefined
+  const orgId = request.orgId?.trim() || undefined
+
+  return {
+    scheduleRange: request.scheduleRange ?? 'Dates',
+    from: request.from,
+    to: request.to,
+    ...(request.promptTemplate &&
+      request.promptTemplate !== 'Custom' && {
+        promptTemplate: request.promptTemplate,
+      }),
+    ...(prompt && { prompt }),
+    parameters: normalizeFilters(request.parameters),
+    groupBy: request.groupBy ?? 'NONE',
+    subgroupBy: request.subgroupBy ?? 'NONE',
+    ...(orgId && { orgId }),
+  }
+}
+
+/**
+ * Stable cache key for a request
+ */
+export function getReportRequestKey(request: ReportGenerateRequest): string {
+  const normalized = normalizeReportRequest(request)
+  // Fixed key order so the serialized form is deterministic
+  return `coderabbit:report:${JSON.stringify([
+    normalized.from,
+    normalized.to,
+    normalized.scheduleRange,
+    normalized.promptTemplate ?? null,
+    normalized.prompt ?? null,
+    normalized.groupBy,
+    normalized.subgroupBy,
+    normalized.orgId ?? null,
+    normalized.parameters,
+  ])}`
+}
+
+/**
+ * In-memory cache store
+ * Entries live for the lifetime of the process (or tab); oldest are evicted first
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>()
+
+  constructor(private maxEntries = DEFAULT_MAX_ENTRIES) {}
+
+  async get(
+    key: string,
+    _request: ReportGenerateRequest,
+    ttlMs: number,
+  ): Promise<CacheEntry | null> {
+    const entry = this.entries.get(key)
+    if (!entry) return null
+
+    if (Date.now() - entry.cachedAt > ttlMs) {
+      this.entries.delete(key)
+      return null
+    }
+
+    return entry
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value
+      if (oldest === undefined) break
+      this.entries.delete(oldest)
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+
+  /**
+   * Remove all entries
+   */
+  clear(): void {
+    this.entries.clear()
+  }
+}
+
+/**
+ * Cache store backed by a ReportStorageAdapter
+ *
+ * Reuses the most recent completed report with matching parameters. Writes are
+ * no-ops because reports are already persisted by whoever generated them.
+ */
+export class StorageCacheStore implements CacheStore {
+  constructor(
+    private storage: ReportStorageAdapter,
+    private lookback = DEFAULT_STORAGE_LOOKBACK,
+  ) {}
+
+  async get(
+    key: string,
+    _request: ReportGenerateRequest,
+    ttlMs: number,
+  ): Promise<CacheEntry | null> {
+    const { reports } = await this.storage.list({ limit: this.lookback })
+    const cutoff = Date.now() - ttlMs
+
+    const match = reports.find(
+      (report) =>
+        report.status === 'completed' &&
+        report.createdAt >= cutoff &&
+        getReportRequestKey(toReportRequest(report)) === key,
+    )
+
+    if (!match) return null
+
+    return {
+      results: match.results,
+      cachedAt: match.createdAt,
+      reportId: match.id,
+    }
+  }
+
+  async set(): Promise<void> {}
+
+  async delete(): Promise<void> {}
+}
+
+/**
+ * Report cache with TTL, used by CodeRabbitClient and useCodeRabbit
+ *
+ * @example
+ * ```ts
+ * const cache = new ReportCache(new MemoryCacheStore(), { ttlMs: 15 * 60_000 })
+ * const client = createCodeRabbitClient({ cache })
+ *
+ * await client.generateReport(request) // API call
+ * await client.generateReport(request) // served from cache
+ * await client.generateReport(request, { bypassCache: true }) // forced refresh
+ * ```
+ */
+export class ReportCache {
+  private store: CacheStore
+  private ttlMs: number
+
+  constructor(store: CacheStore, options?: { ttlMs?: number }) {
+    this.store = store
+    this.ttlMs = options?.ttlMs ?? DEFAULT_TTL_MS
+  }
+
+  async get(request: ReportGenerateRequest): Promise<CacheEntry | null> {
+    return this.store.get(
+      getReportRequestKey(request),
+      normalizeReportRequest(request),
+      this.ttlMs,
+    )
+  }
+
+  async set(
+    request: ReportGenerateRequest,
+    results: ReportResult[],
+    reportId?: string,
+  ): Promise<void> {
+    await this.store.set(getReportRequestKey(request), {
+      results,
+      cachedAt: Date.now(),
+      reportId,
+    })
+  }
+
+  async invalidate(request: ReportGenerateRequest): Promise<void> {
+    await this.store.delete(getReportRequestKey(request))
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * CodeRabbit Cassettes
+ * Record real report.generate exchanges to JSON and replay them deterministically (Node.js)
+ */
+
+import { getReportRequestKey } from '@/registry/default/lib/cache'
+import { CodeRabbitError } from '@/registry/default/lib/errors'
+import { redactHeaders } from '@/registry/default/lib/interceptors'
+import {
+  createFetchTransport,
+  type Transport,
+  type TransportRequest,
+} from '@/registry/default/lib/transport'
+import type { ReportGenerateRequest } from '@/registry/default/lib/types'
+
+const CASSETTE_VERSION = 1
+
+/**
+ * - `record`: call the API and save every exchange (overwrites matching keys)
+ * - `replay`: serve from the cassette; unmatched requests fail
+ * - `auto`: replay when the cassette has a match, otherwise record
+ */
+export type CassetteMode = 'record' | 'replay' | 'auto'
+
+/**
+ * A recorded request/response pair
+ */
+export interface CassetteInteraction {
+  /** Normalized request key (see getReportRequestKey) */
+  key: string
+  request: {
+    url: string
+    /** Headers with the API key redacted */
+    headers: Record<string, string>
+    body: unknown
+  }
+  response: {
+    status: number
+    headers: Record<string, string>
+    body: string
+  }
+  recordedAt: string
+}
+
+export interface CassetteFile {
+  version: number
+  interactions: CassetteInteraction[]
+}
+
+export interface CassetteOptions {
+  /** Path to the cassette JSON file */
+  path: string
+  /** Default: replay */
+  mode?: CassetteMode
+  /** Transport used when recording (default: global fetch) */
+  transport?: Transport
+}
+
+/**
+ * Response headers that are never written to disk
+ */
+const SKIPPED_RESPONSE_HEADERS = new Set(['set-cookie', 'content-encoding'])
+
+function getInteractionKey(body: string): string {
+  try {
+    return getReportRequestKey(JSON.parse(body) as ReportGenerateRequest)
+  } catch {
+    return body
+  }
+}
+
+async function readCassette(path: string): Promise<CassetteFile> {
+  const { readFile } = await import('node:fs/promises')
+
+  try {
+    const cassette = JSON.parse(await readFile(path, 'utf8')) as CassetteFile
+    if (cassette.version !== CASSETTE_VERSION) {
+      throw new Error(
+        `Unsupported cassette version ${cassette.version} in ${path}`,
+      )
+    }
+    return cassette
+  } catch (error) {
+    if ((error as { code?: string }).code === 'ENOENT') {
+      return { version: CASSETTE_VERSION, interactions: [] }
+    }
+    throw error
+  }
+}
+
+async function writeCassette(
+  path: string,
+  cassette: CassetteFile,
+): Promise<void> {
+  const { mkdir, writeFile } = await import('node:fs/promises')
+  const { dirname } = await import('node:path')
+
+  await mkdir(dirname(path), { recursive: true })
+  await writeFile(path, `${JSON.stringify(cassette, null, 2)}\n`)
+}
+
+function toResponse(interaction: CassetteInteraction): Response {
+  return new Response(interaction.response.body, {
+    status: interaction.response.status,
+    headers: interaction.response.headers,
+  })
+}
+
+/**
+ * Transport that records to and/or replays from a cassette file
+ *
+ * @example
+ * ```ts
+ * // Record once against the real API
+ * const client = createCodeRabbitClient({
+ *   transport: createCassetteTransport({
+ *     path: 'fixtures/coderabbit/sprint.json',
+ *     mode: 'record',
+ *   }),
+ * })
+ *
+ * // Replay in tests (no network or API key needed)
+ * const client = createCodeRabbitClient({
+ *   apiKey: 'test',
+ *   transport: createCassetteTransport({ path: 'fixtures/coderabbit/sprint.json' }),
+ * })
+ * ```
+ */
+export function createCassetteTransport(options: CassetteOptions): Transport {
+  const mode = options.mode ?? 'replay'
+  const upstream = options.transport ?? createFetchTransport()
+  let cassette: Promise<CassetteFile> | null = null
+  // Serialize writes so concurrent recordings don't clobber each other
+  let writes: Promise<void> = Promise.resolve()
+
+  const load = () => (cassette ??= readCassette(options.path))
+
+  const record = async (
+    request: TransportRequest,
+    key: string,
+  ): Promise<Response> => {
+    const response = await upstream.send(request)
+    const body = await response.text()
+
+    const interaction: CassetteInteraction = {
+      key,
+      request: {
+        url: request.url,
+        headers: redactHeaders(request.headers),
+        body: JSON.parse(request.body),
+      },
+      response: {
+        status: response.status,
+        headers: Object.fromEntries(
+          Array.from(response.headers).filter(
+            ([name]) => !SKIPPED_RESPONSE_HEADERS.has(name.toLowerCase()),
+          ),
+        ),
+        body,
+      },
+      recordedAt: new Date().toISOString(),
+    }
+
+    writes = writes
+      .catch(() => {})
+      .then(async () => {
+        const current = await load()
+        current.interactions = [
+          ...current.interactions.filter((entry) => entry.key !== key),
+          interaction,
+        ]
+        await writeCassette(options.path, current)
+      })
+    await writes
+
+    return toResponse(interaction)
+  }
+
+  return {
+    send: async (request) => {
+      const key = getInteractionKey(request.body)
+
+      if (mode === 'record') return record(request, key)
+
+      const match = (await load()).interactions.find(
+        (entry) => entry.key === key,
+      )
+      if (match) return toResponse(match)
+      if (mode === 'auto') return record(request, key)
+
+      throw new CodeRabbitError(
+        'UNKNOWN',
+        `No cassette entry in ${options.path} for request ${request.body}. Record it with mode: 'record' or 'auto'.`,
+        { payload: { key, path: options.path } },
+      )
+    },
+  }
+}
@@ -0,0 +1,237 @@
+/**
+ * CodeRabbit Date Range Chunking
+ * Split long ranges into windows, generate them concurrently, and merge by group
+ */
+
+import {
+  CodeRabbitError,
+  toCodeRabbitErrorInfo,
+  type CodeRabbitErrorInfo,
+} from '@/registry/default/lib/errors'
+import type {
+  ReportGenerateRequest,
+  ReportResult,
+} from '@/registry/default/lib/types'
+import { isValidIsoDate } from '@/registry/default/lib/validation'
+
+const DEFAULT_CONCURRENCY = 2
+
+/**
+ * Window size for chunked generation
+ */
+export type ChunkBy = 'week' | 'month'
+
+/**
+ * Inclusive date window (YYYY-MM-DD)
+ */
+export interface DateWindow {
+  from: string
+  to: string
+}
+
+/**
+ * Outcome of a single chunk
+ */
+export interface ChunkOutcome extends DateWindow {
+  status: 'completed' | 'failed'
+  results: ReportResult[]
+  error?: CodeRabbitErrorInfo
+}
+
+export interface ChunkProgress {
+  completed: number
+  failed: number
+  total: number
+}
+
+export interface ChunkOptions {
+  chunkBy: ChunkBy
+  /** Maximum chunks generated at the same time (default: 2) */
+  concurrency?: number
+  /** Stops scheduling new chunks and rejects with CANCELLED */
+  signal?: AbortSignal
+  /** Called after each chunk settles */
+  onProgress?: (progress: ChunkProgress) => void
+}
+
+/**
+ * Merged results plus per-chunk outcomes
+ */
+export interface ChunkedReportResult {
+  results: ReportResult[]
+  chunks: ChunkOutcome[]
+}
+
+function parseDate(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day))
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
+/**
+ * Split an inclusive date range into consecutive windows
+ *
+ * - `week`: 7-day windows starting at `from`
+ * - `month`: calendar months, clipped to the range
+ *
+ * Invalid ranges are returned as a single window so validation can report them.
+ */
+export function splitDateRange(
+  from: string,
+  to: string,
+  chunkBy: ChunkBy,
+): DateWindow[] {
+  if (!isValidIsoDate(from) || !isValidIsoDate(to) || from > to) {
+    return [{ from, to }]
+  }
+
+  const end = parseDate(to)
+  const windows: DateWindow[] = []
+  let start = parseDate(from)
+
+  while (start <= end) {
+    const windowEnd =
+      chunkBy === 'week'
+        ? new Date(start.getTime() + 6 * 24 * 60 * 60 * 1000)
+        : new Date(
+            Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 0),
+          )
+    const clipped = windowEnd > end ? end : windowEnd
+
+    windows.push({ from: formatDate(start), to: formatDate(clipped) })
+    start = new Date(clipped.getTime() + 24 * 60 * 60 * 1000)
+  }
+
+  return windows
+}
+
+/**
+ * Merge per-chunk results by group, keeping chunks in chronological order
+ * Groups appear in the order they were first seen
+ */
+export function mergeReportResults(chunks: ReportResult[][]): ReportResult[] {
+  const merged = new Map<string, string[]>()
+
+  for (const results of chunks) {
+    for (const result of results) {
+      const reports = merged.get(result.group) ?? []
+      if (result.report.trim()) reports.push(result.report.trim())
+      merged.set(result.group, reports)
+    }
+  }
+
+  return Array.from(merged, ([group, reports]) => ({
+    group,
+    report: reports.join('\n\n'),
+  }))
+}
+
+/**
+ * Error describing the chunks that failed (null when every chunk completed)
+ * Uses the first failure's code; the message lists each failed range.
+ *
+ * @example
+ * ```ts
+ * const { results, chunks } = await generateChunked(request, generate, options)
+ * const failure = getChunkFailure(chunks)
+ * if (failure) throw failure // don't store partial results as complete
+ * ```
+ */
+export function getChunkFailure(chunks: ChunkOutcome[]): CodeRabbitError | null {
+  const failed = chunks.filter((chunk) => chunk.status === 'failed')
+  if (failed.length === 0) return null
+
+  const ranges = failed.map(
+    (chunk) =>
+      `${chunk.from} to ${chunk.to} (${chunk.error?.message ?? 'failed'})`,
+  )
+  return new CodeRabbitError(
+    failed[0].error?.code ?? 'UNKNOWN',
+    `${failed.length} of ${chunks.length} date ranges failed: ${ranges.join('; ')}`,
+    { payload: failed },
+  )
+}
+
+/**
+ * Generate a report in date-range chunks with bounded concurrency
+ *
+ * Failed chunks are reported in `chunks` and the rest are still merged (see
+ * getChunkFailure to reject partial results). If every chunk fails, the first
+ * error is thrown.
+ *
+ * @example
+ * ```ts
+ * const { results, chunks } = await generateChunked(
+ *   request,
+ *   (chunk) => client.generateReport(chunk),
+ *   { chunkBy: 'month', concurrency: 3 },
+ * )
+ * ```
+ */
+export async function generateChunked(
+  request: ReportGenerateRequest,
+  generate: (chunk: ReportGenerateRequest) => Promise<ReportResult[]>,
+  options: ChunkOptions,
+): Promise<ChunkedReportResult> {
+  const windows = splitDateRange(request.from, request.to, options.chunkBy)
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY)
+  const outcomes: ChunkOutcome[] = new Array(windows.length)
+  const errors: unknown[] = []
+  const progress: ChunkProgress = {
+    completed: 0,
+    failed: 0,
+    total: windows.length,
+  }
+
+  let next = 0
+  const worker = async () => {
+    while (next < windows.length && !options.signal?.aborted) {
+      const index = next++
+      const range = windows[index]
+
+      try {
+        const results = await generate({ ...request, ...range })
+        outcomes[index] = { ...range, status: 'completed', results }
+        progress.completed++
+      } catch (error) {
+        errors.push(error)
+        outcomes[index] = {
+          ...range,
+          status: 'failed',
+          results: [],
+          error: toCodeRabbitErrorInfo(error),
+        }
+        progress.failed++
+      }
+
+      options.onProgress?.({ ...progress })
+    }
+  }
+
+  options.onProgress?.({ ...progress })
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, windows.length) }, worker),
+  )
+
+  if (options.signal?.aborted) {
+    throw new CodeRabbitError(
+      'CANCELLED',
+      'CodeRabbit report generation was cancelled',
+    )
+  }
+  if (progress.completed === 0) {
+    throw errors[0]
+  }
+
+  return {
+    results: mergeReportResults(
+      outcomes
+        .filter((outcome) => outcome.status === 'completed')
+        .map((outcome) => outcome.results),
+    ),
+    chunks: outcomes,
+  }
+}
@@ -7,18 +7,119 @@ import type {
   ReportGenerateRequest,
   ReportResult,
 } from '@/registry/default/lib/types'
+import {
+  CODERABBIT_ERROR_CODES,
+  CodeRabbitError,
+  type CodeRabbitErrorCode,
+} from '@/registry/default/lib/errors'
+import {
+  getApiKeyEnvName,
+  getApiKeyFromEnv,
+  listOrgApiKeyEnvNames,
+  type ApiKeyResolver,
+} from '@/registry/default/lib/api-keys'
+import {
+  getReportRequestKey,
+  type ReportCache,
+} from '@/registry/default/lib/cache'
+import {
+  generateChunked,
+  type ChunkedReportResult,
+  type ChunkOptions,
+} from '@/registry/default/lib/chunking'
+import {
+  BUILTIN_INTERCEPTORS,
+  type CodeRabbitInterceptor,
+  type CodeRabbitRequest,
+  type CodeRabbitResponse,
+} from '@/registry/default/lib/interceptors'
+import {
+  getDefaultRateLimiter,
+  type RateLimiter,
+} from '@/registry/default/lib/rate-limiter'
+import {
+  getRequestAttributes,
+  getResultAttributes,
+  withSpan,
+} from '@/registry/default/lib/telemetry'
+import {
+  createFetchTransport,
+  type FetchLike,
+  type Transport,
+} from '@/registry/default/lib/transport'
+import {
+  formatValidationIssues,
+  validateReportRequest,
+  validateReportResults,
+} from '@/registry/default/lib/validation'
 
 const API_BASE_URL = 'https://api.coderabbit.ai/api'
 const API_VERSION = 'v1'
 const API_TIMEOUT_MS = 600_000 // 10 minutes
+const DEFAULT_MAX_ATTEMPTS = 3
+const DEFAULT_BASE_DELAY_MS = 1_000
+const DEFAULT_MAX_DELAY_MS = 30_000
+
+/**
+ * Retry policy for transient failures (429, 5xx, network errors)
+ * Client errors (400, 401, 403) are never retried
+ */
+export interface RetryOptions {
+  /** Total attempts including the first request (default: 3) */
+  maxAttempts?: number
+  /** Base delay for exponential backoff (default: 1000ms) */
+  baseDelayMs?: number
+  /** Upper bound for a single backoff delay (default: 30000ms) */
+  maxDelayMs?: number
+}
 
 /**
  * CodeRabbit client configuration
  */
 export interface CodeRabbitClientConfig {
+  /** Default key, used when no org-specific key matches */
   apiKey?: string
+  /** Keys by `orgId`, checked before CODERABBIT_API_KEY_<ORG> env vars */
+  apiKeys?: Record<string, string>
+  /** Resolve a key per request (e.g. from a secrets manager), checked first */
+  resolveApiKey?: ApiKeyResolver
   baseUrl?: string
+  /** Overall deadline in milliseconds, shared by all attempts */
   timeout?: number
+  /** Retry policy, or `false` to disable retries */
+  retry?: RetryOptions | false
+  /** Ordered request/response interceptors, run after the built-in steps */
+  interceptors?: CodeRabbitInterceptor[]
+  /**
+   * Called when result items carry fields the client doesn't know about
+   * (defaults to console.warn). Unknown fields are dropped from the results.
+   */
+  onUnknownFields?: (fields: string[], request: CodeRabbitRequest) => void
+  /** Serve identical requests from a cache instead of calling the API */
+  cache?: ReportCache
+  /** Fetch implementation, shorthand for `transport: createFetchTransport({ fetch })` */
+  fetch?: FetchLike
+  /** Custom HTTP transport (proxy, service binding, recorder, test double) */
+  transport?: Transport
+  /**
+   * Throttle API calls (each attempt takes a slot). createCodeRabbitClient
+   * falls back to the limiter set with setDefaultRateLimiter; `false` opts out.
+   */
+  rateLimiter?: RateLimiter | false
+}
+
+/**
+ * Per-call options for generateReport
+ */
+export interface GenerateReportOptions {
+  /** Aborts the request (and any pending retry) with a CANCELLED error */
+  signal?: AbortSignal
+  /** Called before each attempt with the 1-based attempt number */
+  onAttempt?: (attempt: number) => void
+  /** Skip the cache lookup (fresh results still update the cache) */
+  bypassCache?: boolean
+  /** Position in the rate limiter queue (1 = next, 0 = sending) */
+  onQueuePosition?: (position: number) => void
 }
 
 /**
@@ -39,7 +140,7 @@ const ERROR_MESSAGES: Record<string, string> = {
 /**
  * HTTP status to API error code mapping
  */
-const STATUS_CODE_MAP: Record<number, string> = {
+const STATUS_CODE_MAP: Record<number, CodeRabbitErrorCode> = {
   400: 'INVALID_PARAMETER',
   401: 'UNAUTHORIZED',
   403: 'FORBIDDEN',
@@ -58,6 +159,47 @@ function parseErrorResponse(
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   data: any,
   status: number,
+  retryAfterMs?: number,
+): CodeRabbitError {
+  return new CodeRabbitError(
+    parseErrorCode(data, status),
+    parseErrorMessage(data, status),
+    {
+      status,
+      retryable: status === 429 || status >= 500,
+      payload: data,
+      retryAfterMs,
+    },
+  )
+}
+
+/**
+ * Resolve the error code from the payload, falling back to the HTTP status
+ */
+function parseErrorCode(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  data: any,
+  status: number,
+): CodeRabbitErrorCode {
+  const payloadCode =
+    data?.errors?.[0]?.code ?? data?.error?.data?.code ?? data?.code
+
+  if ((CODERABBIT_ERROR_CODES as readonly string[]).includes(payloadCode)) {
+    return payloadCode
+  }
+
+  if (STATUS_CODE_MAP[status]) return STATUS_CODE_MAP[status]
+  if (status >= 500) return 'SERVER_ERROR'
+  return 'UNEXPECTED_RESPONSE'
+}
+
+/**
+ * Build a user-friendly message from the error payload
+ */
+function parseErrorMessage(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  data: any,
+  status: number,
 ): string {
   // Format: { errors: [{ code, message }] } (OpenAPI spec)
   if (Array.isArray(data?.errors) && data.errors.length > 0) {
@@ -92,60 +234,421 @@ function parseErrorResponse(
   return `API request failed with status ${status}`
 }
 
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined
+
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+
+  const date = Date.parse(value)
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now())
+  }
+
+  return undefined
+}
+
+function createCancelledError(): CodeRabbitError {
+  return new CodeRabbitError(
+    'CANCELLED',
+    'CodeRabbit report generation was cancelled',
+  )
+}
+
+/**
+ * Reject with an AbortError when the signal aborts, even if the wrapped
+ * promise (e.g. a transport that ignores its signal) never settles
+ */
+function abortable<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () =>
+      reject(new DOMException('The operation was aborted', 'AbortError'))
+
+    if (signal.aborted) return onAbort()
+    signal.addEventListener('abort', onAbort, { once: true })
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort))
+  })
+}
+
+/**
+ * Wait for the given delay, rejecting early if the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timeoutId)
+      reject(createCancelledError())
+    }
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Shared generation for identical concurrent requests
+ */
+interface InFlightReport {
+  promise: Promise<ReportResult[]>
+  controller: AbortController
+  /** Callers still waiting; the request is aborted when this drops to zero */
+  waiting: number
+}
+
 /**
  * CodeRabbit API client
  */
 export class CodeRabbitClient {
   private apiKey: string | null
+  private apiKeys: Record<string, string>
+  private resolver: ApiKeyResolver | null
   private baseUrl: string
   private timeout: number
+  private retry: Required<RetryOptions> | null
+  private interceptors: CodeRabbitInterceptor[]
+  private onUnknownFields: NonNullable<
+    CodeRabbitClientConfig['onUnknownFields']
+  >
+  private cache: ReportCache | null
+  private transport: Transport
+  private rateLimiter: RateLimiter | null
+  private inFlight = new Map<string, InFlightReport>()
 
   constructor(config?: CodeRabbitClientConfig) {
-    this.apiKey = config?.apiKey ?? this.getApiKeyFromEnv()
+    this.apiKey = config?.apiKey ?? getApiKeyFromEnv()
+    this.apiKeys = config?.apiKeys ?? {}
+    this.resolver = config?.resolveApiKey ?? null
     this.baseUrl = config?.baseUrl ?? API_BASE_URL
     this.timeout = config?.timeout ?? API_TIMEOUT_MS
+    this.retry =
+      config?.retry === false
+        ? null
+        : {
+            maxAttempts: config?.retry?.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+            baseDelayMs: config?.retry?.baseDelayMs ?? DEFAULT_BASE_DELAY_MS,
+            maxDelayMs: config?.retry?.maxDelayMs ?? DEFAULT_MAX_DELAY_MS,
+          }
+    this.interceptors = [
+      ...BUILTIN_INTERCEPTORS,
+      ...(config?.interceptors ?? []),
+    ]
+    this.onUnknownFields =
+      config?.onUnknownFields ??
+      ((fields) =>
+        console.warn(
+          `[coderabbit] Ignoring unknown result fields: ${fields.join(', ')}`,
+        ))
+    this.cache = config?.cache ?? null
+    this.transport =
+      config?.transport ?? createFetchTransport({ fetch: config?.fetch })
+    this.rateLimiter = config?.rateLimiter || null
   }
 
   /**
-   * Get API key from environment (works across runtimes)
+   * Check if CodeRabbit is configured (a default key or any org key exists)
    */
-  private getApiKeyFromEnv(): string | null {
-    if (typeof process !== 'undefined' && process.env) {
-      return process.env.CODERABBIT_API_KEY ?? null
-    }
-    return null
+  isConfigured(): boolean {
+    return (
+      !!this.apiKey ||
+      Object.keys(this.apiKeys).length > 0 ||
+      this.resolver !== null ||
+      listOrgApiKeyEnvNames().length > 0
+    )
   }
 
   /**
-   * Check if CodeRabbit is configured
+   * Check if a key is available for an organization (or the default key)
    */
-  isConfigured(): boolean {
-    return this.apiKey !== null && this.apiKey.length > 0
+  async hasApiKey(orgId?: string): Promise<boolean> {
+    return (await this.resolveApiKey(orgId)) !== null
+  }
+
+  /**
+   * Resolve the key for a request: resolver, then `apiKeys`, then
+   * CODERABBIT_API_KEY_<ORG>, then the default key
+   */
+  private async resolveApiKey(orgId?: string): Promise<string | null> {
+    const resolved = await this.resolver?.(orgId)
+    if (resolved) return resolved
+
+    if (orgId) {
+      const key = this.apiKeys[orgId] ?? getApiKeyFromEnv(orgId)
+      if (key) return key
+    }
+
+    return this.apiKey || null
   }
 
   /**
    * Generate developer activity report
    *
    * This endpoint may take up to 10 minutes to respond depending on data volume.
+   * Requests are validated locally first, so bad parameters fail fast with
+   * INVALID_PARAMETER instead of after a long round trip. Transient failures
+   * are retried with exponential backoff (honoring Retry-After) until the retry
+   * policy or the overall timeout is exhausted. When a cache is configured,
+   * identical requests are answered from it without calling the API.
+   * Concurrent identical requests share a single API call; `onAttempt` is only
+   * reported to the caller that started it. The API key is resolved from the
+   * request's `orgId`.
    *
    * @param request Report generation parameters
+   * @param options Per-call options (abort signal, attempt callback, cache bypass)
    * @returns Array of report groups with markdown content
-   * @throws Error if API key not configured or request fails
+   * @throws CodeRabbitError if API key not configured or request fails
    */
   async generateReport(
     request: ReportGenerateRequest,
+    options?: GenerateReportOptions,
   ): Promise<ReportResult[]> {
-    if (!this.isConfigured()) {
-      throw new Error(
-        'CODERABBIT_API_KEY not configured. Set environment variable or pass apiKey in config.',
+    return withSpan(
+      'coderabbit.generate_report',
+      getRequestAttributes(request),
+      async (span) => {
+        let attempts = 0
+        try {
+          const results = await this.generateReportUntraced(request, {
+            ...options,
+            onAttempt: (attempt) => {
+              attempts = attempt
+              options?.onAttempt?.(attempt)
+            },
+          })
+          span.setAttributes(getResultAttributes(results))
+          return results
+        } finally {
+          // 0 attempts means the results came from the cache or a shared request
+          span.setAttributes({ 'coderabbit.attempts': attempts })
+        }
+      },
+    )
+  }
+
+  /**
+   * generateReport without the telemetry span
+   */
+  private async generateReportUntraced(
+    request: ReportGenerateRequest,
+    options?: GenerateReportOptions,
+  ): Promise<ReportResult[]> {
+    const { valid, issues } = validateReportRequest(request)
+    if (!valid) {
+      throw new CodeRabbitError(
+        'INVALID_PARAMETER',
+        `Invalid report request: ${formatValidationIssues(issues)}`,
+        { issues },
       )
     }
 
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout)
+    const apiKey = await this.resolveApiKey(request.orgId)
+    if (!apiKey) {
+      throw new CodeRabbitError(
+        'NOT_CONFIGURED',
+        request.orgId
+          ? `No CodeRabbit API key for organization "${request.orgId}". Set ${getApiKeyEnvName(request.orgId)}, pass apiKeys in config, or set a default key.`
+          : 'CODERABBIT_API_KEY not configured. Set environment variable or pass apiKey in config.',
+      )
+    }
 
-    try {
-      const requestBody = {
+    if (this.cache && !options?.bypassCache) {
+      // A broken cache should never block generation
+      const cached = await this.cache.get(request).catch(() => null)
+      if (cached) return cached.results
+    }
+
+    const key = getReportRequestKey(request)
+    let inFlight = this.inFlight.get(key)
+
+    if (!inFlight) {
+      const controller = new AbortController()
+      const entry: InFlightReport = {
+        controller,
+        waiting: 0,
+        promise: this.generateWithRetry(request, apiKey, {
+          signal: controller.signal,
+          onAttempt: options?.onAttempt,
+          onQueuePosition: options?.onQueuePosition,
+        })
+          .then(async (results) => {
+            await this.cache?.set(request, results).catch(() => {})
+            return results
+          })
+          .finally(() => this.releaseInFlight(key, entry)),
+      }
+
+      inFlight = entry
+      this.inFlight.set(key, inFlight)
+    }
+
+    return this.waitForInFlight(key, inFlight, options?.signal)
+  }
+
+  /**
+   * Forget a shared request unless a newer one has replaced it
+   */
+  private releaseInFlight(key: string, inFlight: InFlightReport): void {
+    if (this.inFlight.get(key) === inFlight) this.inFlight.delete(key)
+  }
+
+  /**
+   * Wait for a shared request, leaving early if this caller's signal aborts
+   * The underlying request is only aborted once every caller has left
+   */
+  private waitForInFlight(
+    key: string,
+    inFlight: InFlightReport,
+    signal?: AbortSignal,
+  ): Promise<ReportResult[]> {
+    inFlight.waiting++
+
+    return new Promise((resolve, reject) => {
+      let left = false
+      const leave = (): boolean => {
+        if (left) return false
+        left = true
+        signal?.removeEventListener('abort', onAbort)
+        inFlight.waiting--
+        return true
+      }
+      const onAbort = () => {
+        if (!leave()) return
+        if (inFlight.waiting === 0) {
+          this.releaseInFlight(key, inFlight)
+          inFlight.controller.abort()
+        }
+        reject(createCancelledError())
+      }
+
+      if (signal?.aborted) return onAbort()
+      signal?.addEventListener('abort', onAbort, { once: true })
+
+      inFlight.promise.then(
+        (results) => {
+          if (leave()) resolve(results)
+        },
+        (error) => {
+          if (leave()) reject(error)
+        },
+      )
+    })
+  }
+
+  /**
+   * Send the request, retrying transient failures within the overall deadline
+   */
+  private async generateWithRetry(
+    request: ReportGenerateRequest,
+    apiKey: string,
+    options?: GenerateReportOptions,
+  ): Promise<ReportResult[]> {
+    const deadline = Date.now() + this.timeout
+    const maxAttempts = Math.max(1, this.retry?.maxAttempts ?? 1)
+
+    const signal = options?.signal
+
+    for (let attempt = 1; ; attempt++) {
+      if (signal?.aborted) throw createCancelledError()
+      options?.onAttempt?.(attempt)
+
+      const outgoing = await this.buildRequest(request, apiKey, attempt)
+      const release = await this.rateLimiter?.acquire({
+        signal,
+        timeoutMs: Math.max(0, deadline - Date.now()),
+        onQueuePosition: options?.onQueuePosition,
+      })
+
+      let error: unknown
+      try {
+        return await this.sendRequest(outgoing, deadline, signal)
+      } catch (caught) {
+        error = await this.interceptError(caught, outgoing)
+      } finally {
+        // Free the slot before backing off so queued requests can proceed
+        release?.()
+      }
+
+      if (
+        !(error instanceof CodeRabbitError) ||
+        !error.retryable ||
+        attempt >= maxAttempts
+      ) {
+        throw error
+      }
+
+      const delay = error.retryAfterMs ?? this.getBackoffDelay(attempt)
+      if (Date.now() + delay >= deadline) {
+        throw error
+      }
+
+      await sleep(delay, signal)
+    }
+  }
+
+  /**
+   * Generate a long-range report in date chunks (e.g. per week or month)
+   *
+   * Each window is generated with the same retry/timeout policy as
+   * generateReport, with at most `concurrency` requests in flight. Results are
+   * merged by group; failed windows are listed in `chunks` with their error.
+   *
+   * @example
+   * ```ts
+   * const { results, chunks } = await client.generateReportChunked(
+   *   { from: '2024-01-01', to: '2024-12-31', promptTemplate: 'Sprint Report' },
+   *   { chunkBy: 'month', concurrency: 3 },
+   * )
+   * ```
+   */
+  async generateReportChunked(
+    request: ReportGenerateRequest,
+    options: ChunkOptions & GenerateReportOptions,
+  ): Promise<ChunkedReportResult> {
+    return generateChunked(
+      request,
+      (chunk) =>
+        this.generateReport(chunk, {
+          signal: options.signal,
+          onAttempt: options.onAttempt,
+          onQueuePosition: options.onQueuePosition,
+          bypassCache: options.bypassCache,
+        }),
+      options,
+    )
+  }
+
+  /**
+   * Exponential backoff with equal jitter for the given (1-based) attempt
+   */
+  private getBackoffDelay(attempt: number): number {
+    const { baseDelayMs, maxDelayMs } = this.retry!
+    const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1))
+    return delay / 2 + Math.random() * (delay / 2)
+  }
+
+  /**
+   * Build the outgoing request and run it through onRequest interceptors
+   */
+  private async buildRequest(
+    request: ReportGenerateRequest,
+    apiKey: string,
+    attempt: number,
+  ): Promise<CodeRabbitRequest> {
+    let outgoing: CodeRabbitRequest = {
+      url: `${this.baseUrl}/${API_VERSION}/report.generate`,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-coderabbitai-api-key': apiKey,
+      },
+      body: {
         from: request.from,
         to: request.to,
         scheduleRange: request.scheduleRange ?? 'Dates',
@@ -155,57 +658,158 @@ export class CodeRabbitClient {
         ...(request.groupBy && { groupBy: request.groupBy }),
         ...(request.subgroupBy && { subgroupBy: request.subgroupBy }),
         ...(request.orgId && { orgId: request.orgId }),
+      },
+      attempt,
+    }
+
+    for (const interceptor of this.interceptors) {
+      if (interceptor.onRequest) {
+        outgoing = await interceptor.onRequest(outgoing)
       }
+    }
 
-      const response = await fetch(
-        `${this.baseUrl}/${API_VERSION}/report.generate`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'x-coderabbitai-api-key': this.apiKey!,
-          },
-          body: JSON.stringify(requestBody),
-          signal: controller.signal,
-        },
-      )
+    return outgoing
+  }
 
-      clearTimeout(timeoutId)
+  /**
+   * Run a CodeRabbitError through onError interceptors
+   */
+  private async interceptError(
+    error: unknown,
+    request: CodeRabbitRequest,
+  ): Promise<unknown> {
+    if (!(error instanceof CodeRabbitError)) return error
+
+    let result = error
+    for (const interceptor of this.interceptors) {
+      if (interceptor.onError) {
+        result = await interceptor.onError(result, request)
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Send a single report.generate request, aborting at the overall deadline
+   * or when the caller's signal aborts
+   */
+  private async sendRequest(
+    request: CodeRabbitRequest,
+    deadline: number,
+    signal?: AbortSignal,
+  ): Promise<ReportResult[]> {
+    const controller = new AbortController()
+    const timeoutId = setTimeout(
+      () => controller.abort(),
+      Math.max(0, deadline - Date.now()),
+    )
+    const onAbort = () => controller.abort()
+    signal?.addEventListener('abort', onAbort, { once: true })
+
+    try {
+      let response: Response
+      try {
+        response = await abortable(
+          this.transport.send({
+            url: request.url,
+            method: 'POST',
+            headers: request.headers,
+            body: JSON.stringify(request.body),
+            signal: controller.signal,
+          }),
+          controller.signal,
+        )
+      } catch (error) {
+        // Transports may fail with their own CodeRabbitError (e.g. replay misses)
+        if (
+          error instanceof CodeRabbitError ||
+          (error instanceof Error && error.name === 'AbortError')
+        ) {
+          throw error
+        }
+        throw new CodeRabbitError(
+          'NETWORK',
+          `Network error: ${error instanceof Error ? error.message : String(error)}`,
+          { retryable: true, cause: error },
+        )
+      }
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => null)
-        throw new Error(parseErrorResponse(errorData, response.status))
+        throw parseErrorResponse(
+          errorData,
+          response.status,
+          parseRetryAfter(response.headers.get('retry-after')),
+        )
       }
 
-      const responseData = await response.json()
+      const responseData = await response.json().catch((error: unknown) => {
+        if (error instanceof Error && error.name === 'AbortError') throw error
+        throw new CodeRabbitError(
+          'UNEXPECTED_RESPONSE',
+          'CodeRabbit API returned a non-JSON response',
+          { status: response.status, cause: error },
+        )
+      })
 
-      // Handle both direct array (OpenAPI spec) and tRPC-wrapped response
-      if (Array.isArray(responseData)) {
-        return responseData as ReportResult[]
+      // Built-in steps unwrap the tRPC wrapper, leaving the OpenAPI array
+      let intercepted: CodeRabbitResponse = {
+        request,
+        status: response.status,
+        data: responseData,
+      }
+      for (const interceptor of this.interceptors) {
+        if (interceptor.onResponse) {
+          intercepted = await interceptor.onResponse(intercepted)
+        }
+      }
+
+      const validation = validateReportResults(intercepted.data)
+      if (!validation.valid) {
+        throw new CodeRabbitError(
+          'UNEXPECTED_RESPONSE',
+          `Unexpected response format from CodeRabbit API: ${formatValidationIssues(validation.issues)}`,
+          {
+            status: response.status,
+            payload: responseData,
+            issues: validation.issues,
+          },
+        )
+      }
+      if (validation.unknownFields.length > 0) {
+        this.onUnknownFields(validation.unknownFields, request)
       }
 
-      // tRPC wrapper: { result: { data: [] } }
-      if (responseData?.result?.data) {
-        return responseData.result.data as ReportResult[]
+      let results = validation.results
+      for (const interceptor of this.interceptors) {
+        if (interceptor.onResult) {
+          results = await interceptor.onResult(results, request)
+        }
       }
 
-      throw new Error('Unexpected response format from CodeRabbit API')
+      return results
     } catch (error) {
-      clearTimeout(timeoutId)
-
       if (error instanceof Error && error.name === 'AbortError') {
-        throw new Error(
+        if (signal?.aborted) throw createCancelledError()
+        throw new CodeRabbitError(
+          'TIMEOUT',
           `CodeRabbit report generation timed out after ${this.timeout / 1000}s`,
+          { cause: error },
         )
       }
 
       throw error
+    } finally {
+      clearTimeout(timeoutId)
+      signal?.removeEventListener('abort', onAbort)
     }
   }
 }
 
 /**
  * Create a new CodeRabbit client instance
+ * Uses the shared limiter from setDefaultRateLimiter unless one is configured
  *
  * @example
  * ```ts
@@ -220,5 +824,8 @@ export class CodeRabbitClient {
 export function createCodeRabbitClient(
   config?: CodeRabbitClientConfig,
 ): CodeRabbitClient {
-  return new CodeRabbitClient(config)
+  return new CodeRabbitClient({
+    ...config,
+    rateLimiter: config?.rateLimiter ?? getDefaultRateLimiter() ?? undefined,
+  })
 }
@@ -0,0 +1,231 @@
+/**
+ * CodeRabbit Date Ranges
+ * Resolve relative and named ranges (`last-7-days`, `previous-month`, `last-sprint`) into report dates
+ */
+
+import type { ReportGenerateRequest } from '@/registry/default/lib/types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const LAST_N_DAYS_PATTERN = /^last-(\d+)-days?$/
+
+/**
+ * Named ranges accepted by resolveDateRange
+ */
+export const DATE_RANGE_PRESETS = [
+  'today',
+  'yesterday',
+  'last-7-days',
+  'last-14-days',
+  'last-30-days',
+  'this-week',
+  'previous-week',
+  'this-month',
+  'previous-month',
+  'this-sprint',
+  'last-sprint',
+] as const
+
+export type DateRangePreset = (typeof DATE_RANGE_PRESETS)[number]
+
+/**
+ * A preset or any `last-<n>-days` expression
+ */
+export type DateRangeExpression = DateRangePreset | `last-${number}-days`
+
+/**
+ * Fixed-length sprints counted from a known sprint start
+ */
+export interface SprintConfig {
+  /** Sprint length in days (default: 14) */
+  lengthDays?: number
+  /** First day of any sprint, YYYY-MM-DD (default: 2024-01-01, a Monday) */
+  anchor?: string
+}
+
+export interface DateRangeOptions {
+  /** IANA timezone that defines "today" (default: the runtime's local timezone) */
+  timeZone?: string
+  /** Reference time (default: now) */
+  now?: Date | number
+  /** First day of the week, 0 = Sunday, 1 = Monday (default: 1) */
+  weekStartsOn?: 0 | 1
+  sprint?: SprintConfig
+}
+
+/**
+ * Inclusive range of calendar dates (YYYY-MM-DD)
+ */
+export interface ResolvedDateRange {
+  from: string
+  to: string
+}
+
+const DEFAULT_SPRINT: Required<SprintConfig> = {
+  lengthDays: 14,
+  anchor: '2024-01-01',
+}
+
+/**
+ * Calendar days are handled as UTC midnights so arithmetic never crosses DST
+ */
+function parseDate(value: string): number {
+  const [year, month, day] = value.split('-').map(Number)
+  return Date.UTC(year, month - 1, day)
+}
+
+function formatDate(time: number): string {
+  return new Date(time).toISOString().split('T')[0]
+}
+
+/**
+ * The runtime's IANA timezone (the browser's on the client)
+ */
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone
+}
+
+/**
+ * Today's date in a timezone (YYYY-MM-DD)
+ *
+ * @example
+ * ```ts
+ * getTodayInTimeZone('Pacific/Auckland') // '2024-03-02' while it's still March 1 in UTC
+ * ```
+ */
+export function getTodayInTimeZone(
+  timeZone?: string,
+  now: Date | number = Date.now(),
+): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(now)
+}
+
+/**
+ * Whether a string is a supported date range expression
+ */
+export function isDateRangeExpression(
+  value: unknown,
+): value is DateRangeExpression {
+  if (typeof value !== 'string') return false
+  if ((DATE_RANGE_PRESETS as readonly string[]).includes(value)) return true
+
+  const match = LAST_N_DAYS_PATTERN.exec(value)
+  return !!match && Number(match[1]) > 0
+}
+
+function getSprintStart(today: number, sprint?: SprintConfig): number {
+  const lengthDays = sprint?.lengthDays ?? DEFAULT_SPRINT.lengthDays
+  if (!Number.isInteger(lengthDays) || lengthDays < 1) {
+    throw new RangeError('Sprint length must be a positive whole number of days')
+  }
+
+  const anchor = parseDate(sprint?.anchor ?? DEFAULT_SPRINT.anchor)
+  if (Number.isNaN(anchor)) {
+    throw new RangeError('Sprint anchor must be a date (YYYY-MM-DD)')
+  }
+
+  const elapsedDays = Math.round((today - anchor) / DAY_MS)
+  const sprintIndex = Math.floor(elapsedDays / lengthDays)
+  return anchor + sprintIndex * lengthDays * DAY_MS
+}
+
+/**
+ * Resolve a date range expression into concrete dates
+ *
+ * - `today`, `yesterday`
+ * - `last-<n>-days`: the last n days including today
+ * - `this-week`, `this-month`, `this-sprint`: from the start of the period through today
+ * - `previous-week`, `previous-month`, `last-sprint`: the full previous period
+ *
+ * @throws RangeError for unknown expressions or an invalid sprint config
+ *
+ * @example
+ * ```ts
+ * resolveDateRange('previous-month', { timeZone: 'America/New_York' })
+ * // { from: '2024-02-01', to: '2024-02-29' }
+ *
+ * resolveDateRange('last-sprint', { sprint: { lengthDays: 14, anchor: '2024-01-08' } })
+ * ```
+ */
+export function resolveDateRange(
+  expression: DateRangeExpression,
+  options: DateRangeOptions = {},
+): ResolvedDateRange {
+  const today = parseDate(getTodayInTimeZone(options.timeZone, options.now))
+  const range = (from: number, to: number) => ({
+    from: formatDate(from),
+    to: formatDate(to),
+  })
+
+  const lastDays = LAST_N_DAYS_PATTERN.exec(expression)
+  if (lastDays && Number(lastDays[1]) > 0) {
+    return range(today - (Number(lastDays[1]) - 1) * DAY_MS, today)
+  }
+
+  const date = new Date(today)
+  const weekStartsOn = options.weekStartsOn ?? 1
+  const weekStart =
+    today - ((date.getUTCDay() - weekStartsOn + 7) % 7) * DAY_MS
+  const monthStart = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)
+
+  switch (expression) {
+    case 'today':
+      return range(today, today)
+    case 'yesterday':
+      return range(today - DAY_MS, today - DAY_MS)
+    case 'this-week':
+      return range(weekStart, today)
+    case 'previous-week':
+      return range(weekStart - 7 * DAY_MS, weekStart - DAY_MS)
+    case 'this-month':
+      return range(monthStart, today)
+    case 'previous-month':
+      return range(
+        Date.UTC(date.getUTCFullYear(), date.getUTCMonth() - 1, 1),
+        monthStart - DAY_MS,
+      )
+    case 'this-sprint':
+      return range(getSprintStart(today, options.sprint), today)
+    case 'last-sprint': {
+      const sprintStart = getSprintStart(today, options.sprint)
+      const lengthDays = options.sprint?.lengthDays ?? DEFAULT_SPRINT.lengthDays
+      return range(sprintStart - lengthDays * DAY_MS, sprintStart - DAY_MS)
+    }
+  }
+
+  throw new RangeError(
+    `Unknown date range "${expression}". Use one of: ${DATE_RANGE_PRESETS.join(', ')} or last-<n>-days`,
+  )
+}
+
+/**
+ * Fill a request's `from`/`to` (and `timeZone`, when given) from a date range expression
+ *
+ * @example
+ * ```ts
+ * await client.generateReport(
+ *   withDateRange({ promptTemplate: 'Sprint Report' }, 'last-sprint', {
+ *     timeZone: 'Europe/Berlin',
+ *     sprint: { anchor: '2024-01-08' },
+ *   }),
+ * )
+ * ```
+ */
+export function withDateRange<
+  T extends Omit<ReportGenerateRequest, 'from' | 'to'>,
+>(
+  request: T,
+  expression: DateRangeExpression,
+  options?: DateRangeOptions,
+): T & ResolvedDateRange {
+  return {
+    ...request,
+    ...(options?.timeZone && { timeZone: options.timeZone }),
+    ...resolveDateRange(expression, options),
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * CodeRabbit Errors
+ * Typed errors with a stable `code` so callers can branch without string matching
+ */
+
+import type { ValidationIssue } from '@/registry/default/lib/validation'
+
+/**
+ * Error codes raised by the client
+ * API codes from: https://docs.coderabbit.ai
+ */
+export type CodeRabbitErrorCode =
+  | 'NOT_CONFIGURED'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'RATE_LIMITED'
+  | 'INVALID_PARAMETER'
+  | 'SERVER_ERROR'
+  | 'TIMEOUT'
+  | 'CANCELLED'
+  | 'NETWORK'
+  | 'UNEXPECTED_RESPONSE'
+  | 'UNKNOWN'
+
+export const CODERABBIT_ERROR_CODES = [
+  'NOT_CONFIGURED',
+  'UNAUTHORIZED',
+  'FORBIDDEN',
+  'NOT_FOUND',
+  'RATE_LIMITED',
+  'INVALID_PARAMETER',
+  'SERVER_ERROR',
+  'TIMEOUT',
+  'CANCELLED',
+  'NETWORK',
+  'UNEXPECTED_RESPONSE',
+  'UNKNOWN',
+] as const
+
+/**
+ * Serializable error shape (safe to return from server actions)
+ */
+export interface CodeRabbitErrorInfo {
+  code: CodeRabbitErrorCode
+  message: string
+}
+
+export interface CodeRabbitErrorOptions {
+  /** HTTP status code, when the error came from an API response */
+  status?: number
+  /** Whether retrying the same request may succeed */
+  retryable?: boolean
+  /** Raw API error payload */
+  payload?: unknown
+  /** Delay requested by the API via Retry-After */
+  retryAfterMs?: number
+  /** Field-level problems for invalid requests or malformed responses */
+  issues?: ValidationIssue[]
+  cause?: unknown
+}
+
+/**
+ * Error thrown by the CodeRabbit client
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await client.generateReport(request)
+ * } catch (err) {
+ *   if (isCodeRabbitError(err) && err.code === 'RATE_LIMITED') {
+ *     // back off
+ *   }
+ * }
+ * ```
+ */
+export class CodeRabbitError extends Error {
+  readonly code: CodeRabbitErrorCode
+  readonly status?: number
+  readonly retryable: boolean
+  readonly payload?: unknown
+  readonly retryAfterMs?: number
+  readonly issues?: ValidationIssue[]
+
+  constructor(
+    code: CodeRabbitErrorCode,
+    message: string,
+    options?: CodeRabbitErrorOptions,
+  ) {
+    super(message, { cause: options?.cause })
+    this.name = 'CodeRabbitError'
+    this.code = code
+    this.status = options?.status
+    this.retryable = options?.retryable ?? false
+    this.payload = options?.payload
+    this.retryAfterMs = options?.retryAfterMs
+    this.issues = options?.issues
+  }
+
+  toJSON(): CodeRabbitErrorInfo {
+    return { code: this.code, message: this.message }
+  }
+}
+
+/**
+ * Type guard for CodeRabbitError
+ */
+export function isCodeRabbitError(error: unknown): error is CodeRabbitError {
+  return error instanceof CodeRabbitError
+}
+
+/**
+ * Convert any thrown value into a serializable { code, message }
+ */
+export function toCodeRabbitErrorInfo(
+  error: unknown,
+  fallbackMessage = 'Failed to generate report',
+): CodeRabbitErrorInfo {
+  if (isCodeRabbitError(error)) {
+    return error.toJSON()
+  }
+
+  return {
+    code: 'UNKNOWN',
+    message: error instanceof Error ? error.message : fallbackMessage,
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * CodeRabbit Generate and Store
+ * Generate a report and persist it server-side, for adapters that can't run in the browser
+ */
+
+import { guardReportRequest } from '@/registry/default/lib/action-guard'
+import {
+  generateAndStoreReport,
+  type GenerateAndStoreReportOptions,
+  type GenerateAndStoreReportResult,
+} from '@/registry/default/lib/report-jobs'
+import type { ReportGenerateRequest } from '@/registry/default/lib/types'
+
+export type GenerateAndStoreReportAction = (
+  request: ReportGenerateRequest,
+) => Promise<GenerateAndStoreReportResult>
+
+/**
+ * Create a function that generates a report and stores it
+ *
+ * Requests are validated and authorized like generateReportAction. Valid ones
+ * get a pending record, then success or failure is written once the API
+ * responds. Invalid or rejected requests are not stored. With
+ * `runInBackground` the action returns the pending report's ID right away.
+ *
+ * @example
+ * ```ts
+ * // app/actions.ts
+ * 'use server'
+ *
+ * const generateAndStore = createGenerateAndStoreReportAction({
+ *   storage: new PostgresStorageAdapter({ pool }),
+ * })
+ *
+ * export async function generateAndStoreReport(request: ReportGenerateRequest) {
+ *   return generateAndStore(request)
+ * }
+ * ```
+ */
+export function createGenerateAndStoreReportAction(
+  options: GenerateAndStoreReportOptions,
+): GenerateAndStoreReportAction {
+  return async (request) => {
+    // Invalid or rejected requests never reach storage
+    const rejected = await guardReportRequest(request)
+    if (rejected) return rejected
+
+    return generateAndStoreReport(request, options)
+  }
+}
@@ -0,0 +1,150 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { setReportAuthorizer } from '@/registry/default/lib/authorization'
+import { createReportHandler } from '@/registry/default/lib/handler'
+import { createMockCodeRabbitClient } from '@/registry/default/lib/mock'
+import type { ReportStorageAdapter } from '@/registry/default/lib/storage-adapter'
+import type { StoredReport } from '@/registry/default/lib/types'
+
+/**
+ * In-memory adapter that applies `orgIds` before paging, like the bundled ones
+ */
+function createMemoryStorage(): ReportStorageAdapter & {
+  reports: Map<string, StoredReport>
+} {
+  const reports = new Map<string, StoredReport>()
+  let nextId = 1
+
+  const update = (id: string, changes: Partial<StoredReport>) => {
+    reports.set(id, { ...reports.get(id)!, ...changes })
+  }
+
+  return {
+    reports,
+    async create(data) {
+      const id = `report-${nextId++}`
+      reports.set(id, { ...data, id, createdAt: Date.now() })
+      return id
+    },
+    async updateSuccess(id, results, durationMs) {
+      update(id, { status: 'completed', results, durationMs })
+    },
+    async updateFailure(id, error, durationMs) {
+      update(id, { status: 'failed', error, durationMs })
+    },
+    async get(id) {
+      return reports.get(id) ?? null
+    },
+    async list(options) {
+      const matching = [...reports.values()].filter(
+        (report) =>
+          !options?.orgIds || options.orgIds.includes(report.orgId ?? ''),
+      )
+      const offset = options?.offset ?? 0
+      return {
+        reports: matching.slice(offset, offset + (options?.limit ?? 10)),
+        total: matching.length,
+      }
+    },
+    async delete(id) {
+      reports.delete(id)
+    },
+  }
+}
+
+const request = {
+  from: '2024-01-01',
+  to: '2024-01-07',
+  promptTemplate: 'Daily Standup Report',
+}
+
+function post(body: unknown): Request {
+  return new Request('http://localhost/reports', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  })
+}
+
+afterEach(() => {
+  setReportAuthorizer(null)
+  vi.unstubAllEnvs()
+})
+
+describe('createReportHandler', () => {
+  it('pages and counts only reports in the caller scope', async () => {
+    const storage = createMemoryStorage()
+    for (const orgId of ['acme', 'other', 'acme', 'other', 'acme']) {
+      await storage.create({
+        fromDate: '2024-01-01',
+        toDate: '2024-01-07',
+        orgId,
+        status: 'completed',
+        results: [],
+      })
+    }
+    setReportAuthorizer(() => ({ orgIds: ['acme'] }))
+
+    const response = await createReportHandler({ storage })(
+      new Request('http://localhost/reports?limit=2'),
+    )
+    const body = (await response.json()) as {
+      reports: StoredReport[]
+      total: number
+    }
+
+    expect(body.total).toBe(3)
+    expect(body.reports).toHaveLength(2)
+    expect(body.reports.every((report) => report.orgId === 'acme')).toBe(true)
+  })
+
+  it('hides the message of errors that are not CodeRabbitErrors', async () => {
+    setReportAuthorizer(() => {
+      throw new Error('db down')
+    })
+
+    const response = await createReportHandler()(post(request))
+
+    expect(response.status).toBe(500)
+    expect(await response.json()).toEqual({
+      error: { code: 'UNKNOWN', message: 'Request failed' },
+    })
+  })
+
+  it('returns the failed report ID when a stored generation fails', async () => {
+    const storage = createMemoryStorage()
+    const client = createMockCodeRabbitClient({
+      mock: { errors: [{ status: 400, message: 'Bad filter' }] },
+    })
+
+    const response = await createReportHandler({ storage, client })(
+      post(request),
+    )
+    const body = (await response.json()) as { reportId?: string }
+
+    expect(response.status).toBe(400)
+    expect(body.reportId).toBe('report-1')
+    expect(storage.reports.get('report-1')?.status).toBe('failed')
+  })
+
+  it('only lists configured organizations when the scope allows it', async () => {
+    vi.stubEnv('CODERABBIT_API_KEY', '')
+    vi.stubEnv('CODERABBIT_API_KEY_ACME', 'acme-key')
+    vi.stubEnv('CODERABBIT_API_KEY_GLOBEX', 'globex-key')
+    const config = async () => {
+      const response = await createReportHandler()(
+        new Request('http://localhost/config?orgId=acme&orgId=initech'),
+      )
+      return ((await response.json()) as { organizations: unknown })
+        .organizations
+    }
+
+    expect(await config()).toEqual({ acme: true, initech: false })
+
+    setReportAuthorizer(() => ({ listOrgIds: true }))
+    expect(await config()).toEqual({
+      ACME: true,
+      GLOBEX: true,
+      acme: true,
+      initech: false,
+    })
+  })
+})
@@ -0,0 +1,436 @@
+/**
+ * CodeRabbit Report Handler
+ * REST routes for reports as a Web `Request` -> `Response` handler, for apps
+ * that can't use server actions (TanStack Start, Remix, Hono, Express, SPAs)
+ */
+
+import {
+  getOrganizationKeyStatus,
+  type CodeRabbitConfigStatus,
+} from '@/registry/default/lib/api-keys'
+import {
+  authorizeReportRequest,
+  isReportInScope,
+  type AuthorizationAction,
+  type ReportAuthorization,
+} from '@/registry/default/lib/authorization'
+import { createCodeRabbitClient } from '@/registry/default/lib/client'
+import {
+  isCodeRabbitError,
+  toCodeRabbitErrorInfo,
+  type CodeRabbitErrorCode,
+  type CodeRabbitErrorInfo,
+} from '@/registry/default/lib/errors'
+import {
+  generateAndStoreReport,
+  generateReportResult,
+  type GenerateAndStoreReportResult,
+  type ReportJobScheduler,
+  type StoredReportGenerationOptions,
+} from '@/registry/default/lib/report-jobs'
+import { createReportProgressResponse } from '@/registry/default/lib/report-progress'
+import type { ReportStorageAdapter } from '@/registry/default/lib/storage-adapter'
+import { instrumentStorage } from '@/registry/default/lib/telemetry'
+import type { ReportGenerateRequest } from '@/registry/default/lib/types'
+import {
+  formatValidationIssues,
+  validateReportRequest,
+  type ValidationIssue,
+} from '@/registry/default/lib/validation'
+
+export interface ReportHandlerOptions extends StoredReportGenerationOptions {
+  /** Storage for the report routes. Without it, POST /reports only generates. */
+  storage?: ReportStorageAdapter
+  /** Path the routes are mounted under, e.g. `/api/coderabbit` (default: none) */
+  basePath?: string
+  /**
+   * Return 202 with the pending report's ID and generate it in a job
+   * (requires `storage`, see createGenerateAndStoreReportAction)
+   */
+  runInBackground?: ReportJobScheduler
+}
+
+export type ReportHandler = (request: Request) => Promise<Response>
+
+/**
+ * Error response body (the same shape server actions return)
+ */
+export interface ReportHandlerError {
+  error: CodeRabbitErrorInfo
+  issues?: ValidationIssue[]
+  /** The stored report that failed, when one was created */
+  reportId?: string
+}
+
+const ERROR_STATUS: Record<CodeRabbitErrorCode, number> = {
+  NOT_CONFIGURED: 503,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  RATE_LIMITED: 429,
+  INVALID_PARAMETER: 400,
+  SERVER_ERROR: 502,
+  TIMEOUT: 504,
+  CANCELLED: 499,
+  NETWORK: 502,
+  UNEXPECTED_RESPONSE: 502,
+  UNKNOWN: 500,
+}
+
+function errorResponse(
+  error: CodeRabbitErrorInfo,
+  options?: { status?: number; issues?: ValidationIssue[]; reportId?: string },
+): Response {
+  const body: ReportHandlerError = { error }
+  if (options?.issues) body.issues = options.issues
+  if (options?.reportId) body.reportId = options.reportId
+  return Response.json(body, {
+    status: options?.status ?? ERROR_STATUS[error.code],
+  })
+}
+
+function notFound(message: string): Response {
+  return errorResponse({ code: 'NOT_FOUND', message })
+}
+
+function methodNotAllowed(allow: string[]): Response {
+  return new Response(null, {
+    status: 405,
+    headers: { Allow: allow.join(', ') },
+  })
+}
+
+function parseInteger(value: string | null): number | undefined {
+  if (value === null || !/^\d+$/.test(value)) return undefined
+  return Number(value)
+}
+
+/**
+ * Create a REST handler for reports
+ *
+ * - `POST /reports`: generate (and store) a report from a ReportGenerateRequest body
+ * - `GET /reports?limit=&offset=`: list stored reports
+ * - `GET /reports/:id`, `DELETE /reports/:id`
+ * - `GET /reports/:id/events`: progress as Server-Sent Events (authorized as getReport)
+ * - `GET /config?orgId=`: same status as checkCodeRabbitConfig
+ *
+ * Requests run through the authorizer set with setReportAuthorizer, using the
+ * incoming request's headers. Errors use the `{ error: { code, message } }`
+ * shape with a matching HTTP status.
+ *
+ * @example
+ * ```ts
+ * const handler = createReportHandler({
+ *   storage: new PostgresStorageAdapter({ pool }),
+ *   basePath: '/api/coderabbit',
+ * })
+ *
+ * const response = await handler(request)
+ * ```
+ */
+export function createReportHandler(
+  options: ReportHandlerOptions = {},
+): ReportHandler {
+  const basePath = options.basePath?.replace(/\/+$/, '') ?? ''
+  // Every route reads and writes through the same instrumented adapter
+  const storage = options.storage && instrumentStorage(options.storage)
+  const getClient = () => options.client ?? createCodeRabbitClient()
+
+  const authorize = (
+    request: Request,
+    action: AuthorizationAction,
+    reportRequest?: ReportGenerateRequest,
+  ): Promise<ReportAuthorization | null> =>
+    authorizeReportRequest(reportRequest, { action, headers: request.headers })
+
+  const generate = async (request: Request): Promise<Response> => {
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return errorResponse({
+        code: 'INVALID_PARAMETER',
+        message: 'Request body must be a JSON report request',
+      })
+    }
+
+    // Also rejects bodies that aren't objects (null, arrays, strings)
+    const { valid, issues } = validateReportRequest(body)
+    if (!valid) {
+      return errorResponse(
+        {
+          code: 'INVALID_PARAMETER',
+          message: `Invalid report request: ${formatValidationIssues(issues)}`,
+        },
+        { issues },
+      )
+    }
+
+    const reportRequest = body as ReportGenerateRequest
+    await authorize(request, 'generateReport', reportRequest)
+
+    const generation: StoredReportGenerationOptions = {
+      client: options.client,
+      chunkBy: options.chunkBy,
+      chunkConcurrency: options.chunkConcurrency,
+    }
+    const result: GenerateAndStoreReportResult = storage
+      ? await generateAndStoreReport(reportRequest, {
+          ...generation,
+          storage,
+          runInBackground: options.runInBackground,
+        })
+      : await generateReportResult(reportRequest, generation)
+
+    if (result.error) {
+      return errorResponse(result.error, { reportId: result.reportId })
+    }
+    return Response.json(result, {
+      status: result.status === 'pending' ? 202 : storage ? 201 : 200,
+    })
+  }
+
+  const config = async (request: Request, url: URL): Promise<Response> => {
+    const scope = await authorize(request, 'checkConfig')
+    const client = getClient()
+    const orgIds = url.searchParams.getAll('orgId')
+
+    const status: CodeRabbitConfigStatus = {
+      isConfigured: client.isConfigured(),
+      organizations: await getOrganizationKeyStatus(
+        (orgId) => client.hasApiKey(orgId),
+        orgIds.length > 0 ? orgIds : undefined,
+        scope,
+      ),
+    }
+    return Response.json(status)
+  }
+
+  const reports = async (
+    request: Request,
+    url: URL,
+    reportStorage: ReportStorageAdapter,
+    id?: string,
+    events?: boolean,
+  ): Promise<Response> => {
+    if (id === undefined) {
+      if (request.method !== 'GET') return methodNotAllowed(['GET', 'POST'])
+
+      const scope = await authorize(request, 'listReports')
+      // The adapter filters before paging, so pages and `total` only count
+      // reports in scope
+      const { reports, total } = await reportStorage.list({
+        limit: parseInteger(url.searchParams.get('limit')),
+        offset: parseInteger(url.searchParams.get('offset')),
+        orgIds: scope?.orgIds,
+      })
+      return Response.json({
+        // Guards against adapters that ignore `orgIds`
+        reports: reports.filter((report) => isReportInScope(report, scope)),
+        total,
+      })
+    }
+
+    if (events && request.method !== 'GET') return methodNotAllowed(['GET'])
+    if (request.method !== 'GET' && request.method !== 'DELETE') {
+      return methodNotAllowed(['GET', 'DELETE'])
+    }
+
+    const scope = await authorize(
+      request,
+      request.method === 'GET' ? 'getReport' : 'deleteReport',
+    )
+    const report = await reportStorage.get(id)
+    if (!report || !isReportInScope(report, scope)) {
+      return notFound(`Report ${id} not found`)
+    }
+
+    if (events) {
+      return createReportProgressResponse(report, {
+        storage: reportStorage,
+        signal: request.signal,
+      })
+    }
+    if (request.method === 'GET') return Response.json(report)
+
+    await reportStorage.delete(id)
+    return new Response(null, { status: 204 })
+  }
+
+  return async (request) => {
+    const url = new URL(request.url)
+    const path = url.pathname.startsWith(basePath)
+      ? url.pathname.slice(basePath.length)
+      : url.pathname
+    const [resource, id, ...rest] = path.split('/').filter(Boolean)
+
+    try {
+      if (resource === 'config' && !id) {
+        return request.method === 'GET'
+          ? await config(request, url)
+          : methodNotAllowed(['GET'])
+      }
+
+      const events =
+        id !== undefined && rest.length === 1 && rest[0] === 'events'
+      if (resource === 'reports' && (rest.length === 0 || events)) {
+        if (!id && request.method === 'POST') return await generate(request)
+        if (!storage) {
+          return errorResponse({
+            code: 'NOT_CONFIGURED',
+            message: 'No storage adapter configured for stored reports',
+          })
+        }
+        let reportId: string | undefined
+        try {
+          reportId = id && decodeURIComponent(id)
+        } catch {
+          return errorResponse({
+            code: 'INVALID_PARAMETER',
+            message: 'Report ID is not a valid URL component',
+          })
+        }
+        return await reports(request, url, storage, reportId, events)
+      }
+
+      return notFound(`No route for ${request.method} ${url.pathname}`)
+    } catch (err) {
+      // Only CodeRabbitErrors are meant for callers; others (e.g. a database
+      // error thrown by the authorizer) may expose internals
+      return errorResponse(
+        isCodeRabbitError(err)
+          ? toCodeRabbitErrorInfo(err)
+          : { code: 'UNKNOWN', message: 'Request failed' },
+      )
+    }
+  }
+}
+
+/**
+ * Route handlers for the Next.js App Router
+ *
+ * @example
+ * ```ts
+ * // app/api/coderabbit/[...path]/route.ts
+ * export const { GET, POST, DELETE } = toNextRouteHandlers(
+ *   createReportHandler({ storage, basePath: '/api/coderabbit' }),
+ * )
+ * ```
+ */
+export function toNextRouteHandlers(handler: ReportHandler) {
+  return { GET: handler, POST: handler, DELETE: handler }
+}
+
+/**
+ * Hono handler (works with any framework that exposes the Web Request)
+ *
+ * @example
+ * ```ts
+ * app.all(
+ *   '/api/coderabbit/*',
+ *   toHonoHandler(createReportHandler({ storage, basePath: '/api/coderabbit' })),
+ * )
+ * ```
+ */
+export function toHonoHandler(handler: ReportHandler) {
+  return (c: { req: { raw: Request } }) => handler(c.req.raw)
+}
+
+/**
+ * The parts of Express's (and Node's) request used by toExpressHandler
+ */
+export interface NodeRequestLike extends AsyncIterable<Uint8Array | string> {
+  method?: string
+  url?: string
+  /** Express: the full path, including the mount path */
+  originalUrl?: string
+  protocol?: string
+  headers: Record<string, string | string[] | undefined>
+  /** Parsed body (e.g. from express.json()) */
+  body?: unknown
+}
+
+export interface NodeResponseLike {
+  statusCode: number
+  setHeader(name: string, value: string): unknown
+  write(chunk: Uint8Array): unknown
+  end(body?: Uint8Array): unknown
+  /** Used to stop streaming when the client disconnects */
+  on?(event: 'close', listener: () => void): unknown
+  /** Express: sends buffered headers before the first streamed chunk */
+  flushHeaders?(): void
+}
+
+async function toWebRequest(
+  req: NodeRequestLike,
+  signal: AbortSignal,
+): Promise<Request> {
+  const headers = new Headers()
+  for (const [name, value] of Object.entries(req.headers)) {
+    for (const item of [value ?? []].flat()) headers.append(name, item)
+  }
+
+  const method = req.method ?? 'GET'
+  const url = new URL(
+    req.originalUrl ?? req.url ?? '/',
+    `${req.protocol ?? 'http'}://${headers.get('host') ?? 'localhost'}`,
+  )
+  if (method === 'GET' || method === 'HEAD') {
+    return new Request(url, { method, headers, signal })
+  }
+
+  let body: BodyInit
+  if (req.body !== undefined) {
+    // Already consumed by a body parser
+    body = typeof req.body === 'string' ? req.body : JSON.stringify(req.body)
+  } else {
+    const chunks: (Uint8Array | string)[] = []
+    for await (const chunk of req) chunks.push(chunk)
+    body = new Blob(chunks as BlobPart[])
+  }
+
+  return new Request(url, { method, headers, body, signal })
+}
+
+/**
+ * Express middleware (also works with Node's http.createServer)
+ *
+ * @example
+ * ```ts
+ * app.use(
+ *   '/api/coderabbit',
+ *   toExpressHandler(createReportHandler({ storage, basePath: '/api/coderabbit' })),
+ * )
+ * ```
+ */
+export function toExpressHandler(handler: ReportHandler) {
+  return async (
+    req: NodeRequestLike,
+    res: NodeResponseLike,
+    next?: (err?: unknown) => void,
+  ): Promise<void> => {
+    const controller = new AbortController()
+    res.on?.('close', () => controller.abort())
+
+    try {
+      const response = await handler(await toWebRequest(req, controller.signal))
+
+      res.statusCode = response.status
+      response.headers.forEach((value, name) => res.setHeader(name, value))
+      if (response.body) {
+        // Stream chunks as they arrive (progress events stay open for minutes)
+        res.flushHeaders?.()
+        const reader = response.body.getReader()
+        while (true) {
+          const { done, value } = await reader.read()
+          if (done) break
+          res.write(value)
+        }
+      }
+      res.end()
+    } catch (err) {
+      if (!next) throw err
+      next(err)
+    }
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * CodeRabbit Client Interceptors
+ * Ordered request/response pipeline for cross-cutting behavior (logging, headers, metrics)
+ */
+
+import type { CodeRabbitError } from '@/registry/default/lib/errors'
+import type { ReportResult } from '@/registry/default/lib/types'
+
+const API_KEY_HEADER = 'x-coderabbitai-api-key'
+
+/**
+ * Outgoing report.generate request
+ */
+export interface CodeRabbitRequest {
+  url: string
+  headers: Record<string, string>
+  body: Record<string, unknown>
+  /** 1-based attempt number (retries produce new requests) */
+  attempt: number
+}
+
+/**
+ * Raw response from report.generate, before it is read as ReportResult[]
+ */
+export interface CodeRabbitResponse {
+  request: CodeRabbitRequest
+  status: number
+  data: unknown
+}
+
+/**
+ * Interceptor hooks, all optional and may be async
+ *
+ * Interceptors run in the order they are configured, after the built-in steps.
+ * Each hook receives the output of the previous one and returns the (possibly
+ * modified) value to pass along.
+ */
+export interface CodeRabbitInterceptor {
+  /** Name used in logs and for debugging */
+  name?: string
+  /** Inspect or modify the outgoing request (runs once per attempt) */
+  onRequest?: (
+    request: CodeRabbitRequest,
+  ) => CodeRabbitRequest | Promise<CodeRabbitRequest>
+  /** Inspect or transform the raw JSON response */
+  onResponse?: (
+    response: CodeRabbitResponse,
+  ) => CodeRabbitResponse | Promise<CodeRabbitResponse>
+  /** Inspect or modify the parsed report results */
+  onResult?: (
+    results: ReportResult[],
+    request: CodeRabbitRequest,
+  ) => ReportResult[] | Promise<ReportResult[]>
+  /** Inspect or replace an error (runs once per failed attempt) */
+  onError?: (
+    error: CodeRabbitError,
+    request: CodeRabbitRequest,
+  ) => CodeRabbitError | Promise<CodeRabbitError>
+}
+
+/**
+ * Built-in step: unwrap tRPC responses ({ result: { data: [] } })
+ * The OpenAPI spec returns the array directly, which passes through untouched
+ */
+export const unwrapResponseInterceptor: CodeRabbitInterceptor = {
+  name: 'unwrap-response',
+  onResponse: (response) => {
+    const data = response.data as { result?: { data?: unknown } } | null
+
+    if (!Array.isArray(data) && data?.result?.data) {
+      return { ...response, data: data.result.data }
+    }
+
+    return response
+  },
+}
+
+/**
+ * Steps that always run before user-configured interceptors
+ */
+export const BUILTIN_INTERCEPTORS: CodeRabbitInterceptor[] = [
+  unwrapResponseInterceptor,
+]
+
+/**
+ * Copy headers with the API key masked (safe for logs)
+ */
+export function redactHeaders(
+  headers: Record<string, string>,
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [
+      name,
+      name.toLowerCase() === API_KEY_HEADER ? '[REDACTED]' : value,
+    ]),
+  )
+}
+
+/**
+ * Log requests, results and errors with the API key redacted
+ *
+ * @example
+ * ```ts
+ * const client = createCodeRabbitClient({
+ *   interceptors: [createLoggingInterceptor()],
+ * })
+ * ```
+ */
+export function createLoggingInterceptor(
+  logger: Pick<Console, 'info' | 'error'> = console,
+): CodeRabbitInterceptor {
+  return {
+    name: 'logging',
+    onRequest: (request) => {
+      logger.info('[coderabbit] request', {
+        url: request.url,
+        attempt: request.attempt,
+        headers: redactHeaders(request.headers),
+        body: request.body,
+      })
+      return request
+    },
+    onResult: (results, request) => {
+      logger.info('[coderabbit] response', {
+        attempt: request.attempt,
+        groups: results.length,
+      })
+      return results
+    },
+    onError: (error, request) => {
+      logger.error('[coderabbit] error', {
+        attempt: request.attempt,
+        code: error.code,
+        status: error.status,
+        message: error.message,
+      })
+      return error
+    },
+  }
+}
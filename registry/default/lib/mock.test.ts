@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest'
+import { createMockCodeRabbitApi } from '@/registry/default/lib/mock'
+
+function generate(body: unknown): Request {
+  return new Request('https://mock.coderabbit.local/api/v1/report.generate', {
+    method: 'POST',
+    headers: { 'x-coderabbitai-api-key': 'test' },
+    body: JSON.stringify(body),
+  })
+}
+
+describe('MockCodeRabbitApi', () => {
+  it.each([
+    { promptTemplate: 'Weekly Digest' },
+    { groupBy: 'PROJECT' },
+    { groupBy: 'REPOSITORY', subgroupBy: 'PROJECT' },
+  ])('rejects unknown values like the real API (%o)', async (values) => {
+    const response = await createMockCodeRabbitApi().handle(
+      generate({ from: '2024-01-01', to: '2024-01-07', ...values }),
+    )
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toMatchObject({
+      errors: [{ code: 'INVALID_PARAMETER' }],
+    })
+  })
+})
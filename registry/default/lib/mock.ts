@@ -0,0 +1,501 @@
+/**
+ * CodeRabbit Mock API
+ * Offline report.generate implementation with realistic fixtures for tests and demos
+ */
+
+import {
+  CodeRabbitClient,
+  type CodeRabbitClientConfig,
+} from '@/registry/default/lib/client'
+import type {
+  Transport,
+  TransportRequest,
+} from '@/registry/default/lib/transport'
+import {
+  GROUP_BY_OPTIONS,
+  PROMPT_TEMPLATES,
+  type GroupBy,
+  type PromptTemplate,
+  type ReportGenerateRequest,
+  type ReportResult,
+} from '@/registry/default/lib/types'
+
+const API_KEY_HEADER = 'x-coderabbitai-api-key'
+const MOCK_API_KEY = 'mock-coderabbit-api-key'
+const REPORT_GENERATE_PATH = '/v1/report.generate'
+
+/**
+ * Error payload shapes understood by the client's error parser
+ * - openapi: { errors: [{ code, message }] }
+ * - flat: { message, code }
+ * - trpc: { error: { message, code, data: { code } } }
+ */
+export type MockErrorFormat = 'openapi' | 'flat' | 'trpc'
+
+/**
+ * An injected error response
+ */
+export interface MockErrorResponse {
+  status: number
+  /** API error code (default: derived from status) */
+  code?: string
+  message?: string
+  /** Payload shape (default: openapi) */
+  format?: MockErrorFormat
+  /** Retry-After header, in seconds */
+  retryAfter?: number
+}
+
+export interface MockCodeRabbitOptions {
+  /** Simulated response time in milliseconds (default: 0) */
+  latencyMs?: number
+  /** Only this key is accepted; any other key gets a 401 (default: any key) */
+  apiKey?: string
+  /**
+   * Errors to return instead of a report. An array is consumed in order, one
+   * per request, so `[{ status: 503 }]` fails once and then succeeds.
+   */
+  errors?:
+    | MockErrorResponse[]
+    | ((
+        request: ReportGenerateRequest,
+        call: number,
+      ) => MockErrorResponse | undefined)
+  /** Replace the built-in fixture for a template */
+  fixtures?: Partial<
+    Record<PromptTemplate, (request: ReportGenerateRequest) => string>
+  >
+  /** Wrap successful responses like the tRPC endpoint (default: false) */
+  trpc?: boolean
+}
+
+const STATUS_ERROR_CODES: Record<number, string> = {
+  400: 'INVALID_PARAMETER',
+  401: 'UNAUTHORIZED',
+  403: 'FORBIDDEN',
+  429: 'RATE_LIMITED',
+}
+
+const MOCK_GROUPS: Record<Exclude<GroupBy, 'NONE'>, string[]> = {
+  REPOSITORY: ['acme/web', 'acme/api'],
+  LABEL: ['feature', 'bug'],
+  TEAM: ['Platform', 'Growth'],
+  USER: ['alice', 'bob'],
+  SOURCEBRANCH: ['feature/billing', 'fix/login-redirect'],
+  TARGETBRANCH: ['main', 'release/2.4'],
+  STATE: ['merged', 'open'],
+}
+
+function dailyStandupFixture(request: ReportGenerateRequest): string {
+  return [
+    `- **PR Link:** [#482: Add usage-based billing](https://github.com/acme/web/pull/482)`,
+    `  - **Summary:** Introduces metered billing for API calls between ${request.from} and ${request.to}, with Stripe usage records and an invoice preview.`,
+    `  - **Next Steps:** Address review comments on proration and merge behind the \`billing-v2\` flag.`,
+    `- **PR Link:** [#479: Fix login redirect loop](https://github.com/acme/web/pull/479)`,
+    `  - **Summary:** Stops the OAuth callback from redirecting back to /login when the session cookie is set on a different subdomain.`,
+    `  - **Next Steps:** Verify on staging with SSO accounts.`,
+    `- **PR Link:** [#131: Cache organization settings](https://github.com/acme/api/pull/131)`,
+    `  - **Summary:** Adds a 60 second in-memory cache for organization settings lookups.`,
+    `  - **Next Steps:** None, ready to merge.`,
+  ].join('\n')
+}
+
+function sprintReportFixture(request: ReportGenerateRequest): string {
+  return [
+    `## Sprint summary (${request.from} to ${request.to})`,
+    '',
+    '14 pull requests merged, 3 open, 2 closed without merging.',
+    '',
+    '### Highlights',
+    '',
+    '[#482](https://github.com/acme/web/pull/482): Add usage-based billing',
+    'Metered billing is live behind a flag. Invoice previews are accurate to the cent.',
+    '',
+    '[#479](https://github.com/acme/web/pull/479): Fix login redirect loop',
+    'Resolves the most reported auth issue from the last sprint.',
+    '',
+    '[#131](https://github.com/acme/api/pull/131): Cache organization settings',
+    'Cuts p95 latency on dashboard loads by roughly 40%.',
+    '',
+    '### Risks',
+    '',
+    '- Billing migration needs a backfill before the flag is removed.',
+  ].join('\n')
+}
+
+function releaseNotesFixture(request: ReportGenerateRequest): string {
+  return [
+    `## Release notes (${request.to})`,
+    '',
+    '### Features',
+    '',
+    '- [#482](https://github.com/acme/web/pull/482): Usage-based billing with invoice previews',
+    '',
+    '### Fixes',
+    '',
+    '- [#479](https://github.com/acme/web/pull/479): Login no longer loops when cookies are set on a subdomain',
+    '',
+    '### Performance',
+    '',
+    '- [#131](https://github.com/acme/api/pull/131): Organization settings are cached for 60 seconds',
+  ].join('\n')
+}
+
+function customFixture(request: ReportGenerateRequest): string {
+  return [
+    `## Custom report (${request.from} to ${request.to})`,
+    '',
+    `> ${request.prompt ?? ''}`,
+    '',
+    'This is mock output. 14 pull requests matched the requested period.',
+  ].join('\n')
+}
+
+/**
+ * Built-in fixtures, one per template
+ */
+export const MOCK_FIXTURES: Record<
+  PromptTemplate,
+  (request: ReportGenerateRequest) => string
+> = {
+  'Daily Standup Report': dailyStandupFixture,
+  'Sprint Report': sprintReportFixture,
+  'Release Notes': releaseNotesFixture,
+  Custom: customFixture,
+}
+
+function jsonResponse(
+  data: unknown,
+  status: number,
+  headers?: Record<string, string>,
+): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  })
+}
+
+/**
+ * Build an error response in the requested payload format
+ */
+export function createMockErrorResponse(error: MockErrorResponse): Response {
+  const code = error.code ?? STATUS_ERROR_CODES[error.status] ?? 'INTERNAL'
+  const message = error.message ?? `Mock ${code} error`
+
+  const payload =
+    error.format === 'flat'
+      ? { message, code }
+      : error.format === 'trpc'
+        ? { error: { message, code, data: { code, httpStatus: error.status } } }
+        : { errors: [{ code, message }] }
+
+  return jsonResponse(
+    payload,
+    error.status,
+    error.retryAfter !== undefined
+      ? { 'Retry-After': String(error.retryAfter) }
+      : undefined,
+  )
+}
+
+/**
+ * Wait for the given delay, rejecting with an AbortError if the signal aborts
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  if (ms <= 0) return Promise.resolve()
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timeoutId)
+      reject(new DOMException('The operation was aborted', 'AbortError'))
+    }
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * In-process mock of the report.generate endpoint
+ * Usable directly as a client transport
+ *
+ * @example
+ * ```ts
+ * const api = createMockCodeRabbitApi({ errors: [{ status: 503 }] })
+ * const client = createCodeRabbitClient({ apiKey: 'test', transport: api })
+ * api.requests // bodies received so far
+ * ```
+ */
+export class MockCodeRabbitApi implements Transport {
+  /** Request bodies received, in order */
+  readonly requests: ReportGenerateRequest[] = []
+  private options: MockCodeRabbitOptions
+
+  constructor(options?: MockCodeRabbitOptions) {
+    this.options = {}
+    this.configure(options ?? {})
+  }
+
+  /**
+   * Handle a Web Request and return the API response
+   */
+  async handle(request: Request): Promise<Response> {
+    const { pathname } = new URL(request.url)
+
+    if (!pathname.endsWith(REPORT_GENERATE_PATH)) {
+      return jsonResponse(
+        { errors: [{ code: 'NOT_FOUND', message: `No route for ${pathname}` }] },
+        404,
+      )
+    }
+    if (request.method !== 'POST') {
+      return jsonResponse(
+        {
+          errors: [
+            { code: 'METHOD_NOT_ALLOWED', message: 'Use POST for report.generate' },
+          ],
+        },
+        405,
+      )
+    }
+
+    await delay(this.options.latencyMs ?? 0, request.signal)
+
+    const apiKey = request.headers.get(API_KEY_HEADER)
+    if (!apiKey || (this.options.apiKey && apiKey !== this.options.apiKey)) {
+      return createMockErrorResponse({ status: 401 })
+    }
+
+    const body = (await request
+      .json()
+      .catch(() => null)) as ReportGenerateRequest | null
+    if (!body || typeof body !== 'object') {
+      return createMockErrorResponse({
+        status: 400,
+        message: 'Request body must be JSON',
+      })
+    }
+
+    this.requests.push(body)
+
+    const error = this.nextError(body) ?? this.validate(body)
+    if (error) return createMockErrorResponse(error)
+
+    const results = this.generate(body)
+    return jsonResponse(
+      this.options.trpc ? { result: { data: results } } : results,
+      200,
+    )
+  }
+
+  /**
+   * Transport entry point for CodeRabbitClient
+   */
+  send(request: TransportRequest): Promise<Response> {
+    return this.handle(new Request(request.url, request))
+  }
+
+  /**
+   * Update options (e.g. inject errors mid-test)
+   */
+  configure(options: MockCodeRabbitOptions): void {
+    // Copy error queues so consuming them doesn't mutate the caller's array
+    this.options = {
+      ...this.options,
+      ...options,
+      ...(Array.isArray(options.errors) && { errors: [...options.errors] }),
+    }
+  }
+
+  /**
+   * Clear recorded requests
+   */
+  reset(): void {
+    this.requests.length = 0
+  }
+
+  private nextError(
+    request: ReportGenerateRequest,
+  ): MockErrorResponse | undefined {
+    const { errors } = this.options
+    if (typeof errors === 'function') {
+      return errors(request, this.requests.length)
+    }
+    return errors?.shift()
+  }
+
+  /**
+   * Reject values the real API doesn't accept (400 INVALID_PARAMETER)
+   */
+  private validate(
+    request: ReportGenerateRequest,
+  ): MockErrorResponse | undefined {
+    const { promptTemplate, groupBy, subgroupBy } = request
+    if (
+      promptTemplate !== undefined &&
+      !(PROMPT_TEMPLATES as readonly string[]).includes(promptTemplate)
+    ) {
+      return {
+        status: 400,
+        message: `promptTemplate must be one of: ${PROMPT_TEMPLATES.join(', ')}`,
+      }
+    }
+    for (const [field, value] of [
+      ['groupBy', groupBy],
+      ['subgroupBy', subgroupBy],
+    ] as const) {
+      if (
+        value !== undefined &&
+        !(GROUP_BY_OPTIONS as readonly string[]).includes(value)
+      ) {
+        return {
+          status: 400,
+          message: `${field} must be one of: ${GROUP_BY_OPTIONS.join(', ')}`,
+        }
+      }
+    }
+    return undefined
+  }
+
+  private generate(request: ReportGenerateRequest): ReportResult[] {
+    const template =
+      request.promptTemplate ?? (request.prompt ? 'Custom' : 'Sprint Report')
+    const fixture =
+      this.options.fixtures?.[template] ?? MOCK_FIXTURES[template]
+    const report = fixture(request)
+
+    if (!request.groupBy || request.groupBy === 'NONE') {
+      return [{ group: '', report }]
+    }
+
+    return MOCK_GROUPS[request.groupBy].map((group) => ({ group, report }))
+  }
+}
+
+/**
+ * Create an in-process mock of the CodeRabbit API
+ */
+export function createMockCodeRabbitApi(
+  options?: MockCodeRabbitOptions,
+): MockCodeRabbitApi {
+  return new MockCodeRabbitApi(options)
+}
+
+/**
+ * CodeRabbitClient that talks to a MockCodeRabbitApi instead of the network
+ * Retries, timeouts, validation and interceptors behave exactly as in production
+ */
+export class MockCodeRabbitClient extends CodeRabbitClient {
+  readonly api: MockCodeRabbitApi
+
+  constructor(config?: CodeRabbitClientConfig & { mock?: MockCodeRabbitOptions }) {
+    const api = new MockCodeRabbitApi(config?.mock)
+    super({
+      apiKey: config?.mock?.apiKey ?? MOCK_API_KEY,
+      baseUrl: 'https://mock.coderabbit.local/api',
+      ...config,
+      transport: api,
+    })
+    this.api = api
+  }
+}
+
+/**
+ * Create a client backed by the mock API (no API key or network required)
+ *
+ * @example
+ * ```ts
+ * const client = createMockCodeRabbitClient({
+ *   mock: { latencyMs: 200, errors: [{ status: 429, retryAfter: 1 }] },
+ * })
+ * const results = await client.generateReport({
+ *   from: '2024-01-01',
+ *   to: '2024-01-07',
+ *   promptTemplate: 'Daily Standup Report',
+ * })
+ * ```
+ */
+export function createMockCodeRabbitClient(
+  config?: CodeRabbitClientConfig & { mock?: MockCodeRabbitOptions },
+): MockCodeRabbitClient {
+  return new MockCodeRabbitClient(config)
+}
+
+/**
+ * A running mock HTTP server
+ */
+export interface MockCodeRabbitServer {
+  api: MockCodeRabbitApi
+  /** Pass as `baseUrl` to the client, e.g. http://127.0.0.1:4010/api */
+  baseUrl: string
+  close: () => Promise<void>
+}
+
+/**
+ * Start a local HTTP server implementing POST /api/v1/report.generate (Node.js)
+ *
+ * Use it for end-to-end tests that need real HTTP, such as a running dev server
+ * or another process. Point the client's `baseUrl` at the server.
+ *
+ * @example
+ * ```ts
+ * const server = await startMockCodeRabbitServer({ port: 4010 })
+ * const client = createCodeRabbitClient({ apiKey: 'test', baseUrl: server.baseUrl })
+ * // ...
+ * await server.close()
+ * ```
+ */
+export async function startMockCodeRabbitServer(
+  options?: MockCodeRabbitOptions & { port?: number; hostname?: string },
+): Promise<MockCodeRabbitServer> {
+  const { createServer } = await import('node:http')
+  const api = new MockCodeRabbitApi(options)
+  const hostname = options?.hostname ?? '127.0.0.1'
+
+  const server = createServer(async (req, res) => {
+    const chunks: Buffer[] = []
+    for await (const chunk of req) chunks.push(chunk as Buffer)
+
+    const headers = new Headers()
+    for (const [name, value] of Object.entries(req.headers)) {
+      if (typeof value === 'string') headers.set(name, value)
+    }
+
+    const controller = new AbortController()
+    res.on('close', () => controller.abort())
+
+    try {
+      const response = await api.handle(
+        new Request(`http://${hostname}${req.url}`, {
+          method: req.method,
+          headers,
+          body: chunks.length > 0 ? Buffer.concat(chunks) : undefined,
+          signal: controller.signal,
+        }),
+      )
+
+      res.writeHead(response.status, Object.fromEntries(response.headers))
+      res.end(await response.text())
+    } catch {
+      // Client disconnected during simulated latency
+      res.destroy()
+    }
+  })
+
+  await new Promise<void>((resolve) =>
+    server.listen(options?.port ?? 0, hostname, resolve),
+  )
+  const address = server.address()
+  const port = typeof address === 'object' && address ? address.port : 0
+
+  return {
+    api,
+    baseUrl: `http://${hostname}:${port}/api`,
+    close: () =>
+      new Promise((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve())),
+      ),
+  }
+}
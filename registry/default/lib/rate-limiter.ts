@@ -0,0 +1,232 @@
+/**
+ * CodeRabbit Rate Limiter
+ * Token bucket plus concurrency cap with a FIFO queue, shareable across clients
+ */
+
+import { CodeRabbitError } from '@/registry/default/lib/errors'
+
+const DEFAULT_REQUESTS_PER_WINDOW = 10
+const DEFAULT_WINDOW_MS = 60_000
+const DEFAULT_MAX_CONCURRENT = 2
+
+export interface RateLimiterOptions {
+  /** Requests allowed per window, also the burst size (default: 10) */
+  requestsPerWindow?: number
+  /** Window length in milliseconds (default: 60000) */
+  windowMs?: number
+  /** Requests in flight at the same time (default: 2) */
+  maxConcurrent?: number
+}
+
+export interface AcquireOptions {
+  /** Leave the queue with a CANCELLED error */
+  signal?: AbortSignal
+  /** Leave the queue with a TIMEOUT error after this many milliseconds */
+  timeoutMs?: number
+  /**
+   * Called whenever the caller's place in the queue changes
+   * 1 means next in line; 0 means the request is starting
+   */
+  onQueuePosition?: (position: number) => void
+}
+
+interface Waiter {
+  resolve: (release: () => void) => void
+  reject: (error: CodeRabbitError) => void
+  onQueuePosition?: (position: number) => void
+  cleanup: () => void
+}
+
+/**
+ * Client-side rate limiter
+ *
+ * Tokens refill continuously at `requestsPerWindow / windowMs`. A request
+ * starts when it is first in the queue, a token is available and fewer than
+ * `maxConcurrent` requests are running.
+ *
+ * @example
+ * ```ts
+ * const limiter = new RateLimiter({ requestsPerWindow: 5, maxConcurrent: 1 })
+ * const release = await limiter.acquire({ onQueuePosition: console.log })
+ * try {
+ *   // call the API
+ * } finally {
+ *   release()
+ * }
+ * ```
+ */
+export class RateLimiter {
+  private capacity: number
+  private refillPerMs: number
+  private maxConcurrent: number
+  private tokens: number
+  private lastRefill = Date.now()
+  private running = 0
+  private queue: Waiter[] = []
+  private timer: ReturnType<typeof setTimeout> | null = null
+
+  constructor(options?: RateLimiterOptions) {
+    this.capacity = Math.max(
+      1,
+      options?.requestsPerWindow ?? DEFAULT_REQUESTS_PER_WINDOW,
+    )
+    this.refillPerMs =
+      this.capacity / Math.max(1, options?.windowMs ?? DEFAULT_WINDOW_MS)
+    this.maxConcurrent = Math.max(
+      1,
+      options?.maxConcurrent ?? DEFAULT_MAX_CONCURRENT,
+    )
+    this.tokens = this.capacity
+  }
+
+  /** Requests waiting in the queue */
+  get pending(): number {
+    return this.queue.length
+  }
+
+  /** Requests currently running */
+  get active(): number {
+    return this.running
+  }
+
+  /**
+   * Wait for a slot. Resolves with a release function that must be called
+   * once the request finishes.
+   */
+  acquire(options?: AcquireOptions): Promise<() => void> {
+    return new Promise((resolve, reject) => {
+      if (options?.signal?.aborted) {
+        reject(createCancelledError())
+        return
+      }
+
+      const onAbort = () => leave(createCancelledError())
+      const timeoutId =
+        options?.timeoutMs !== undefined
+          ? setTimeout(
+              () =>
+                leave(
+                  new CodeRabbitError(
+                    'TIMEOUT',
+                    'Timed out waiting for a CodeRabbit rate limit slot',
+                  ),
+                ),
+              options.timeoutMs,
+            )
+          : null
+
+      const waiter: Waiter = {
+        resolve,
+        reject,
+        onQueuePosition: options?.onQueuePosition,
+        cleanup: () => {
+          if (timeoutId) clearTimeout(timeoutId)
+          options?.signal?.removeEventListener('abort', onAbort)
+        },
+      }
+
+      const leave = (error: CodeRabbitError) => {
+        const index = this.queue.indexOf(waiter)
+        if (index === -1) return
+        this.queue.splice(index, 1)
+        waiter.cleanup()
+        reject(error)
+        this.reportPositions(index)
+      }
+
+      options?.signal?.addEventListener('abort', onAbort, { once: true })
+      this.queue.push(waiter)
+      waiter.onQueuePosition?.(this.queue.length)
+      this.drain()
+    })
+  }
+
+  private refill(): void {
+    const now = Date.now()
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + (now - this.lastRefill) * this.refillPerMs,
+    )
+    this.lastRefill = now
+  }
+
+  private drain(): void {
+    this.refill()
+
+    let started = 0
+    while (
+      this.queue.length > 0 &&
+      this.running < this.maxConcurrent &&
+      this.tokens >= 1
+    ) {
+      const waiter = this.queue.shift()!
+      waiter.cleanup()
+      this.tokens -= 1
+      this.running++
+      started++
+
+      let released = false
+      waiter.onQueuePosition?.(0)
+      waiter.resolve(() => {
+        if (released) return
+        released = true
+        this.running--
+        this.drain()
+      })
+    }
+
+    if (started > 0) this.reportPositions(0)
+
+    // Out of tokens: wake up when the next one is available
+    if (
+      this.queue.length > 0 &&
+      this.running < this.maxConcurrent &&
+      this.timer === null
+    ) {
+      const waitMs = Math.ceil((1 - this.tokens) / this.refillPerMs)
+      this.timer = setTimeout(() => {
+        this.timer = null
+        this.drain()
+      }, waitMs)
+    }
+  }
+
+  /**
+   * Notify waiters at or after `from` of their new (1-based) position
+   */
+  private reportPositions(from: number): void {
+    for (let index = from; index < this.queue.length; index++) {
+      this.queue[index].onQueuePosition?.(index + 1)
+    }
+  }
+}
+
+function createCancelledError(): CodeRabbitError {
+  return new CodeRabbitError(
+    'CANCELLED',
+    'CodeRabbit report generation was cancelled',
+  )
+}
+
+let defaultRateLimiter: RateLimiter | null = null
+
+/**
+ * Share one limiter across every client created by createCodeRabbitClient
+ * (including the ones inside server actions). Pass null to remove it.
+ *
+ * @example
+ * ```ts
+ * // instrumentation.ts or any server module loaded at startup
+ * setDefaultRateLimiter(new RateLimiter({ requestsPerWindow: 20, maxConcurrent: 3 }))
+ * ```
+ */
+export function setDefaultRateLimiter(limiter: RateLimiter | null): void {
+  defaultRateLimiter = limiter
+}
+
+/**
+ * The limiter set with setDefaultRateLimiter, if any
+ */
+export function getDefaultRateLimiter(): RateLimiter | null {
+  return defaultRateLimiter
+}
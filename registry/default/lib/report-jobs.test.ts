@@ -0,0 +1,41 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createMockCodeRabbitApi } from '@/registry/default/lib/mock'
+import { generateReportResult } from '@/registry/default/lib/report-jobs'
+
+const request = {
+  from: '2024-01-01',
+  to: '2024-01-07',
+  promptTemplate: 'Daily Standup Report' as const,
+}
+
+const api = createMockCodeRabbitApi({ latencyMs: 10 })
+
+beforeEach(() => {
+  api.reset()
+  vi.stubEnv('CODERABBIT_API_KEY', 'test')
+  vi.stubGlobal('fetch', (input: RequestInfo | URL, init?: RequestInit) =>
+    api.handle(new Request(input, init)),
+  )
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+  vi.unstubAllGlobals()
+})
+
+describe('generateReportResult', () => {
+  it('reports the attempts of a shared request to every caller', async () => {
+    const first: number[] = []
+    const second: number[] = []
+
+    const results = await Promise.all([
+      generateReportResult(request, { onAttempt: (n) => first.push(n) }),
+      generateReportResult(request, { onAttempt: (n) => second.push(n) }),
+    ])
+
+    expect(api.requests).toHaveLength(1)
+    expect(results[0]).toBe(results[1])
+    expect(first).toEqual([1])
+    expect(second).toEqual([1])
+  })
+})
@@ -0,0 +1,420 @@
+/**
+ * CodeRabbit Report Jobs
+ * Generate and store reports server-side, in the request or in a background job
+ * (Next.js after(), queue consumers, workers). Framework-agnostic.
+ */
+
+import { getApiKeyEnvName } from '@/registry/default/lib/api-keys'
+import { getReportRequestKey } from '@/registry/default/lib/cache'
+import {
+  getChunkFailure,
+  type ChunkBy,
+  type ChunkProgress,
+} from '@/registry/default/lib/chunking'
+import {
+  createCodeRabbitClient,
+  type CodeRabbitClient,
+} from '@/registry/default/lib/client'
+import {
+  toCodeRabbitErrorInfo,
+  type CodeRabbitErrorInfo,
+} from '@/registry/default/lib/errors'
+import { publishReportProgress } from '@/registry/default/lib/report-progress'
+import {
+  toReportRecord,
+  toReportRequest,
+  type ReportStorageAdapter,
+} from '@/registry/default/lib/storage-adapter'
+import {
+  getRequestAttributes,
+  getResultAttributes,
+  instrumentStorage,
+  withSpan,
+} from '@/registry/default/lib/telemetry'
+import type {
+  ReportGenerateRequest,
+  ReportResult,
+  ReportStatus,
+} from '@/registry/default/lib/types'
+import type { ValidationIssue } from '@/registry/default/lib/validation'
+
+/**
+ * Result of generateReportAction (serializable)
+ */
+export interface GenerateReportActionResult {
+  data?: ReportResult[]
+  error?: CodeRabbitErrorInfo
+  /** Field-level problems when the request failed validation */
+  issues?: ValidationIssue[]
+  /** Number of API attempts made (including retries) */
+  attempts?: number
+}
+
+/**
+ * A pending report waiting to be generated
+ */
+export interface ReportJob {
+  reportId: string
+  /** Generate the report in this process (same as runReportJob) */
+  run: () => Promise<void>
+}
+
+/**
+ * Start a job without waiting for it to finish
+ *
+ * @example
+ * ```ts
+ * import { after } from 'next/server'
+ *
+ * // Next.js: keep working after the response is sent
+ * const schedule: ReportJobScheduler = (job) => after(job.run)
+ *
+ * // Queue: send the ID to a worker that calls runReportJob
+ * const enqueue: ReportJobScheduler = (job) => queue.send({ reportId: job.reportId })
+ * ```
+ */
+export type ReportJobScheduler = (job: ReportJob) => void | Promise<void>
+
+export interface GenerateReportResultOptions {
+  /** Client for the API call (default: createCodeRabbitClient()) */
+  client?: CodeRabbitClient
+  /**
+   * Called before each attempt with the 1-based attempt number (per chunk
+   * with `chunkBy`). Callers sharing a request each receive its attempts.
+   */
+  onAttempt?: (attempt: number) => void
+  /** Generate long ranges in week/month chunks */
+  chunkBy?: ChunkBy
+  /** Maximum chunks generated at the same time (default: 2) */
+  chunkConcurrency?: number
+  /** Called after each chunk settles */
+  onChunkProgress?: (progress: ChunkProgress) => void
+}
+
+/**
+ * How stored reports are generated (progress is published for every report)
+ */
+export type StoredReportGenerationOptions = Pick<
+  GenerateReportResultOptions,
+  'client' | 'chunkBy' | 'chunkConcurrency'
+>
+
+export interface RunReportJobOptions extends StoredReportGenerationOptions {
+  storage: ReportStorageAdapter
+  reportId: string
+}
+
+/**
+ * Result of generating and storing a report (serializable)
+ */
+export interface GenerateAndStoreReportResult
+  extends GenerateReportActionResult {
+  /** Stored report ID (set once the pending record was created) */
+  reportId?: string
+  /** Stored report status (`pending` when a background job finishes it) */
+  status?: ReportStatus
+}
+
+export interface GenerateAndStoreReportOptions
+  extends StoredReportGenerationOptions {
+  /** Server-side adapter (e.g. PostgresStorageAdapter, MySQLStorageAdapter) */
+  storage: ReportStorageAdapter
+  /**
+   * Return as soon as the pending record exists and generate the report in a
+   * job instead (e.g. `(job) => after(job.run)`). Poll the stored report or
+   * stream its progress for the outcome.
+   */
+  runInBackground?: ReportJobScheduler
+}
+
+type ReportProgressListener = Pick<
+  GenerateReportResultOptions,
+  'onAttempt' | 'onChunkProgress'
+>
+
+interface SharedReportProgress {
+  /** Progress callbacks of every caller sharing the request */
+  listeners: Set<ReportProgressListener>
+  /** Latest chunk progress, replayed to callers that join late */
+  chunkProgress?: ChunkProgress
+}
+
+interface InFlightReport {
+  result: Promise<GenerateReportActionResult>
+  progress: SharedReportProgress
+}
+
+/**
+ * Requests currently being generated by this server instance, keyed by the
+ * normalized request and chunking so concurrent identical submissions share
+ * one API call
+ */
+const inFlightReports = new Map<string, InFlightReport>()
+
+/**
+ * Generate a validated report, capturing errors as a serializable result
+ * Concurrent identical requests on the same server instance share one API
+ * call and each receive its progress (requests with their own `client` are
+ * never shared)
+ */
+export async function generateReportResult(
+  request: ReportGenerateRequest,
+  options?: GenerateReportResultOptions,
+): Promise<GenerateReportActionResult> {
+  if (options?.client) return runGenerateReport(request, options)
+
+  const listener: ReportProgressListener = {
+    onAttempt: options?.onAttempt,
+    onChunkProgress: options?.onChunkProgress,
+  }
+  const key = `${getReportRequestKey(request)}:${JSON.stringify([
+    options?.chunkBy ?? null,
+    options?.chunkConcurrency ?? null,
+  ])}`
+
+  const inFlight = inFlightReports.get(key)
+  if (inFlight) {
+    const { progress } = inFlight
+    progress.listeners.add(listener)
+    if (progress.chunkProgress) {
+      listener.onChunkProgress?.(progress.chunkProgress)
+    }
+    return inFlight.result
+  }
+
+  const progress: SharedReportProgress = { listeners: new Set([listener]) }
+  const result = runGenerateReport(request, {
+    ...options,
+    onAttempt: (attempt) => {
+      for (const { onAttempt } of progress.listeners) onAttempt?.(attempt)
+    },
+    onChunkProgress: (chunkProgress) => {
+      progress.chunkProgress = chunkProgress
+      for (const { onChunkProgress } of progress.listeners) {
+        onChunkProgress?.(chunkProgress)
+      }
+    },
+  }).finally(() => {
+    inFlightReports.delete(key)
+  })
+  inFlightReports.set(key, { result, progress })
+
+  return result
+}
+
+async function runGenerateReport(
+  request: ReportGenerateRequest,
+  options?: GenerateReportResultOptions,
+): Promise<GenerateReportActionResult> {
+  const client = options?.client ?? createCodeRabbitClient()
+  let attempts = 0
+
+  try {
+    if (!(await client.hasApiKey(request.orgId))) {
+      return {
+        error: {
+          code: 'NOT_CONFIGURED',
+          message: `${getApiKeyEnvName(request.orgId)} not configured. Set the environment variable in your .env.local file.`,
+        },
+      }
+    }
+
+    const onAttempt = (attempt: number) => {
+      attempts += 1
+      options?.onAttempt?.(attempt)
+    }
+
+    if (options?.chunkBy) {
+      const { results, chunks } = await client.generateReportChunked(request, {
+        chunkBy: options.chunkBy,
+        concurrency: options.chunkConcurrency,
+        onProgress: options.onChunkProgress,
+        onAttempt,
+      })
+      // Failed date ranges fail the report instead of storing partial results
+      const failure = getChunkFailure(chunks)
+      if (failure) throw failure
+      return { data: results, attempts }
+    }
+
+    const results = await client.generateReport(request, { onAttempt })
+    return { data: results, attempts }
+  } catch (err) {
+    return {
+      error: toCodeRabbitErrorInfo(err),
+      attempts,
+    }
+  }
+}
+
+/**
+ * Generate a stored report, publishing its progress
+ */
+function generateStoredReport(
+  reportId: string,
+  request: ReportGenerateRequest,
+  options: StoredReportGenerationOptions,
+): Promise<GenerateReportActionResult> {
+  publishReportProgress(reportId, { type: 'request_sent' })
+
+  return generateReportResult(request, {
+    ...options,
+    onAttempt: (attempt) =>
+      publishReportProgress(reportId, { type: 'attempt', attempt }),
+    onChunkProgress: (progress) =>
+      publishReportProgress(reportId, { type: 'chunk_progress', ...progress }),
+  })
+}
+
+/**
+ * Write a generation result to its stored report and publish the outcome
+ *
+ * @throws When the storage write fails (published as `failed` first)
+ */
+async function storeReportResult(
+  storage: ReportStorageAdapter,
+  reportId: string,
+  result: GenerateReportActionResult,
+  durationMs: number,
+): Promise<void> {
+  try {
+    if (result.data) {
+      await storage.updateSuccess(reportId, result.data, durationMs)
+    } else {
+      await storage.updateFailure(
+        reportId,
+        result.error?.message ?? 'Failed to generate report',
+        durationMs,
+        result.error?.code,
+      )
+    }
+  } catch (err) {
+    publishReportProgress(reportId, {
+      type: 'failed',
+      error: toCodeRabbitErrorInfo(err, 'Failed to store report'),
+    })
+    throw err
+  }
+
+  publishReportProgress(reportId, { type: 'persisted' })
+  if (result.data) {
+    publishReportProgress(reportId, { type: 'completed', durationMs })
+  } else {
+    publishReportProgress(reportId, {
+      type: 'failed',
+      error: result.error ?? {
+        code: 'UNKNOWN',
+        message: 'Failed to generate report',
+      },
+    })
+  }
+}
+
+/**
+ * Generate a pending stored report and write its results or error
+ *
+ * Reports that are missing or no longer pending are skipped, so a retried
+ * queue message won't regenerate a finished report. The request was validated
+ * and authorized when the job was created. Duration is measured from the
+ * report's creation.
+ *
+ * @example
+ * ```ts
+ * // Queue consumer
+ * export async function handleMessage({ reportId }: { reportId: string }) {
+ *   await runReportJob({ storage, reportId })
+ * }
+ * ```
+ */
+export async function runReportJob(options: RunReportJobOptions): Promise<void> {
+  const storage = instrumentStorage(options.storage)
+  const report = await storage.get(options.reportId)
+  if (!report || report.status !== 'pending') return
+
+  const request = toReportRequest(report)
+  const result = await withSpan(
+    'coderabbit.job.generate_report',
+    getRequestAttributes(request),
+    async (span) => {
+      const result = await generateStoredReport(report.id, request, options)
+
+      span.setAttributes({ 'coderabbit.attempts': result.attempts ?? 0 })
+      if (result.data) span.setAttributes(getResultAttributes(result.data))
+
+      return result
+    },
+    { getError: (result) => result.error },
+  )
+
+  await storeReportResult(
+    storage,
+    report.id,
+    result,
+    Date.now() - report.createdAt,
+  )
+}
+
+/**
+ * Create a pending record, then generate the report (or start a job) and
+ * write the outcome. The request must already be validated and authorized.
+ * Progress is published for the report ID (see createReportProgressResponse).
+ */
+export async function generateAndStoreReport(
+  request: ReportGenerateRequest,
+  options: GenerateAndStoreReportOptions,
+): Promise<GenerateAndStoreReportResult> {
+  const storage = instrumentStorage(options.storage)
+  const startTime = Date.now()
+
+  let reportId: string
+  try {
+    reportId = await storage.create({
+      ...toReportRecord(request),
+      status: 'pending',
+      results: [],
+    })
+  } catch (err) {
+    return { error: toCodeRabbitErrorInfo(err, 'Failed to store report') }
+  }
+
+  publishReportProgress(reportId, { type: 'queued' })
+
+  const generation: StoredReportGenerationOptions = {
+    client: options.client,
+    chunkBy: options.chunkBy,
+    chunkConcurrency: options.chunkConcurrency,
+  }
+
+  let result: GenerateReportActionResult
+  if (options.runInBackground) {
+    try {
+      await options.runInBackground({
+        reportId,
+        run: () => runReportJob({ ...generation, storage, reportId }),
+      })
+      return { reportId, status: 'pending' }
+    } catch (err) {
+      result = {
+        error: toCodeRabbitErrorInfo(err, 'Failed to start report job'),
+      }
+    }
+  } else {
+    result = await generateStoredReport(reportId, request, generation)
+  }
+
+  try {
+    await storeReportResult(storage, reportId, result, Date.now() - startTime)
+  } catch (err) {
+    return {
+      reportId,
+      attempts: result.attempts,
+      error: toCodeRabbitErrorInfo(err, 'Failed to store report'),
+    }
+  }
+
+  return {
+    ...result,
+    reportId,
+    status: result.data ? 'completed' : 'failed',
+  }
+}
@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest'
+import { MOCK_FIXTURES } from '@/registry/default/lib/mock'
+import {
+  detectReportKind,
+  parseReport,
+} from '@/registry/default/lib/report-parser'
+import type {
+  PromptTemplate,
+  ReportGenerateRequest,
+} from '@/registry/default/lib/types'
+
+const request: ReportGenerateRequest = {
+  from: '2024-01-01',
+  to: '2024-01-14',
+  prompt: 'Summarize the sprint',
+}
+
+function fixture(template: PromptTemplate, group = 'acme/web') {
+  return { group, report: MOCK_FIXTURES[template](request) }
+}
+
+describe('parseReport', () => {
+  it('parses daily standup PR Link blocks', () => {
+    const parsed = parseReport(fixture('Daily Standup Report'))
+
+    expect(parsed.kind).toBe('daily-standup')
+    expect(parsed.group).toBe('acme/web')
+    expect(parsed.sections).toEqual([])
+    expect(parsed.pullRequests).toHaveLength(3)
+    expect(parsed.pullRequests[0]).toEqual({
+      number: 482,
+      url: 'https://github.com/acme/web/pull/482',
+      title: 'Add usage-based billing',
+      summary:
+        'Introduces metered billing for API calls between 2024-01-01 and 2024-01-14, with Stripe usage records and an invoice preview.',
+      nextSteps:
+        'Address review comments on proration and merge behind the `billing-v2` flag.',
+      body: '',
+      content: [
+        '- **Summary:** Introduces metered billing for API calls between 2024-01-01 and 2024-01-14, with Stripe usage records and an invoice preview.',
+        '  - **Next Steps:** Address review comments on proration and merge behind the `billing-v2` flag.',
+      ].join('\n'),
+    })
+    expect(parsed.pullRequests.map((pr) => pr.number)).toEqual([
+      482, 479, 131,
+    ])
+  })
+
+  it('parses sprint report PR lines with their notes and sections', () => {
+    const parsed = parseReport(fixture('Sprint Report'))
+
+    expect(parsed.kind).toBe('pull-requests')
+    expect(parsed.pullRequests.map((pr) => pr.title)).toEqual([
+      'Add usage-based billing',
+      'Fix login redirect loop',
+      'Cache organization settings',
+    ])
+    expect(parsed.pullRequests[2]).toMatchObject({
+      number: 131,
+      url: 'https://github.com/acme/api/pull/131',
+      section: 'Highlights',
+      body: 'Cuts p95 latency on dashboard loads by roughly 40%.',
+      // Raw content runs to the next PR line, so it keeps later headings
+      content: [
+        'Cuts p95 latency on dashboard loads by roughly 40%.',
+        '',
+        '### Risks',
+        '',
+        '- Billing migration needs a backfill before the flag is removed.',
+      ].join('\n'),
+    })
+    expect(parsed.sections).toEqual([
+      {
+        title: 'Sprint summary (2024-01-01 to 2024-01-14)',
+        level: 2,
+        content: '14 pull requests merged, 3 open, 2 closed without merging.',
+      },
+      { title: 'Highlights', level: 3, content: '' },
+      {
+        title: 'Risks',
+        level: 3,
+        content:
+          '- Billing migration needs a backfill before the flag is removed.',
+      },
+    ])
+  })
+
+  it('records the heading each release note entry appears under', () => {
+    const parsed = parseReport(fixture('Release Notes'))
+
+    expect(parsed.kind).toBe('pull-requests')
+    expect(
+      parsed.pullRequests.map(({ number, section }) => [number, section]),
+    ).toEqual([
+      [482, 'Features'],
+      [479, 'Fixes'],
+      [131, 'Performance'],
+    ])
+    expect(parsed.pullRequests[1].title).toBe(
+      'Login no longer loops when cookies are set on a subdomain',
+    )
+  })
+
+  it('falls back to markdown sections for custom reports', () => {
+    const result = fixture('Custom', 'All')
+    const parsed = parseReport(result)
+
+    expect(parsed.kind).toBe('markdown')
+    expect(parsed.markdown).toBe(result.report)
+    expect(parsed.pullRequests).toEqual([])
+    expect(parsed.sections).toEqual([
+      {
+        title: 'Custom report (2024-01-01 to 2024-01-14)',
+        level: 2,
+        content:
+          '> Summarize the sprint\n\nThis is mock output. 14 pull requests matched the requested period.',
+      },
+    ])
+  })
+
+  it('starts an entry at a heading that links a PR', () => {
+    const parsed = parseReport({
+      group: 'acme/web',
+      report: [
+        '### [#482](https://github.com/acme/web/pull/482): Usage-based billing',
+        '**Summary:** Metered billing behind a flag.',
+        '### [#479](https://github.com/acme/web/pull/479): Login fix',
+      ].join('\n'),
+    })
+
+    expect(parsed.pullRequests).toHaveLength(2)
+    expect(parsed.pullRequests[0]).toMatchObject({
+      number: 482,
+      title: 'Usage-based billing',
+      summary: 'Metered billing behind a flag.',
+      content: '**Summary:** Metered billing behind a flag.',
+    })
+  })
+})
+
+describe('detectReportKind', () => {
+  it('treats a single PR reference as plain markdown', () => {
+    expect(
+      detectReportKind('Merged [#12](https://github.com/acme/api/pull/12).'),
+    ).toBe('markdown')
+  })
+})
@@ -0,0 +1,235 @@
+/**
+ * CodeRabbit Report Parser
+ * Turn report markdown into pull request entries and sections (framework-agnostic)
+ */
+
+import type { ReportResult } from '@/registry/default/lib/types'
+
+/**
+ * Detected report layout
+ *
+ * - `daily-standup`: `- **PR Link:**` blocks with Summary and Next Steps
+ * - `pull-requests`: lines led by `[#123](url)` links (Sprint Report, Release Notes)
+ * - `markdown`: anything else (Custom prompts, single-PR reports)
+ */
+export type ParsedReportKind = 'daily-standup' | 'pull-requests' | 'markdown'
+
+/**
+ * A pull request mentioned in a report
+ */
+export interface ParsedPullRequest {
+  number?: number
+  url?: string
+  title: string
+  summary?: string
+  nextSteps?: string
+  /** Heading the entry appeared under (e.g. `Features`) */
+  section?: string
+  /** Markdown following the PR line, minus Summary and Next Steps */
+  body: string
+  /** Markdown following the PR line up to the next entry, as written */
+  content: string
+}
+
+/**
+ * Free-form markdown outside pull request entries
+ */
+export interface ParsedReportSection {
+  /** Heading text (undefined for content before the first heading) */
+  title?: string
+  /** Heading level, 1-6 */
+  level?: number
+  content: string
+}
+
+export interface ParsedReport {
+  kind: ParsedReportKind
+  group: string
+  pullRequests: ParsedPullRequest[]
+  sections: ParsedReportSection[]
+  /** Original markdown */
+  markdown: string
+}
+
+const PR_LINK_MARKER = '**PR Link:**'
+const PR_LINK_PATTERN = /\*\*PR Link:\*\*\s*\[(.*?)\]\((.*?)\)/
+const PR_REFERENCE_PATTERN = /\[#(\d+)\]\((.*?)\)/
+const PR_LINE_TITLE_PATTERN = /\[#\d+\]\(.*?\):?\s*(.*)/
+const SUMMARY_PATTERN = /^.*\*\*Summary:\*\*\s*(.*?)$/m
+const NEXT_STEPS_PATTERN = /^.*\*\*Next Steps:\*\*\s*(.*?)$/m
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/
+
+/**
+ * Detect which layout a report uses
+ */
+export function detectReportKind(markdown: string): ParsedReportKind {
+  if (markdown.includes(PR_LINK_MARKER)) return 'daily-standup'
+  if ((markdown.match(/\[#\d+\]/g) || []).length > 1) return 'pull-requests'
+  return 'markdown'
+}
+
+function parsePullRequestNumber(title?: string, url?: string) {
+  const match = title?.match(/#(\d+)/) ?? url?.match(/\/pull\/(\d+)/)
+  return match ? Number(match[1]) : undefined
+}
+
+/**
+ * Pull Summary and Next Steps out of an entry body
+ */
+function extractDetails(body: string) {
+  const summary = body.match(SUMMARY_PATTERN)?.[1]?.trim() || undefined
+  const nextSteps = body.match(NEXT_STEPS_PATTERN)?.[1]?.trim() || undefined
+  const rest = body
+    .replace(SUMMARY_PATTERN, '')
+    .replace(NEXT_STEPS_PATTERN, '')
+    .trim()
+
+  return { summary, nextSteps, body: rest }
+}
+
+/**
+ * Split markdown into sections at headings
+ */
+export function parseSections(markdown: string): ParsedReportSection[] {
+  const sections: ParsedReportSection[] = []
+  let current: ParsedReportSection = { content: '' }
+
+  for (const line of markdown.split('\n')) {
+    const heading = line.match(HEADING_PATTERN)
+    if (heading) {
+      sections.push(current)
+      current = { title: heading[2], level: heading[1].length, content: '' }
+    } else {
+      current.content += `${line}\n`
+    }
+  }
+  sections.push(current)
+
+  return sections
+    .map((section) => ({ ...section, content: section.content.trim() }))
+    .filter((section) => section.title || section.content)
+}
+
+function parseDailyStandup(markdown: string) {
+  const [preamble, ...entries] = markdown.split(/(?=^- \*\*PR Link:\*\*)/m)
+  const blocks = preamble.includes(PR_LINK_MARKER)
+    ? [preamble, ...entries]
+    : entries
+
+  const pullRequests = blocks
+    .filter((block) => block.trim())
+    .map((block, index): ParsedPullRequest => {
+      const link = block.match(PR_LINK_PATTERN)
+      const content = block.split('\n').slice(1).join('\n').trim()
+
+      return {
+        number: parsePullRequestNumber(link?.[1], link?.[2]),
+        url: link?.[2] || undefined,
+        title:
+          link?.[1]?.replace(/#\d+:?\s*/, '').trim() ||
+          `Pull Request ${index + 1}`,
+        ...extractDetails(content),
+        content,
+      }
+    })
+
+  return {
+    pullRequests,
+    sections: preamble.includes(PR_LINK_MARKER) ? [] : parseSections(preamble),
+  }
+}
+
+function parsePullRequestList(markdown: string) {
+  const entries: {
+    pullRequest: Omit<ParsedPullRequest, 'body' | 'content'>
+    lines: string[]
+    raw: string[]
+  }[] = []
+  const sectionLines: string[] = []
+  let currentHeading: string | undefined
+  // Entry whose body is still being collected (a heading ends it)
+  let current: (typeof entries)[number] | null = null
+
+  for (const line of markdown.split('\n')) {
+    const reference = line.match(PR_REFERENCE_PATTERN)
+    const heading = line.match(HEADING_PATTERN)
+
+    // A PR reference starts an entry, even on a heading line
+    if (reference) {
+      const number = Number(reference[1])
+      current = {
+        pullRequest: {
+          number,
+          url: reference[2] || undefined,
+          title:
+            line.match(PR_LINE_TITLE_PATTERN)?.[1]?.trim() ||
+            `Pull Request #${number}`,
+          section: currentHeading,
+        },
+        lines: [],
+        raw: [],
+      }
+      entries.push(current)
+      continue
+    }
+
+    // Raw content runs until the next PR line, headings included
+    entries[entries.length - 1]?.raw.push(line)
+
+    if (heading) {
+      current = null
+      currentHeading = heading[2]
+      sectionLines.push(line)
+    } else if (current) {
+      current.lines.push(line)
+    } else {
+      sectionLines.push(line)
+    }
+  }
+
+  const pullRequests = entries.map(
+    ({ pullRequest, lines, raw }): ParsedPullRequest => ({
+      ...pullRequest,
+      ...extractDetails(lines.join('\n')),
+      content: raw.join('\n').trim(),
+    }),
+  )
+
+  return { pullRequests, sections: parseSections(sectionLines.join('\n')) }
+}
+
+/**
+ * Parse a report result into a typed model
+ *
+ * Sections hold markdown that isn't part of a pull request entry. Headings
+ * that only introduce pull requests (e.g. `### Features`) appear with empty
+ * content and are also recorded on each entry's `section`.
+ *
+ * @example
+ * ```ts
+ * const { kind, pullRequests } = parseReport(results[0])
+ * for (const pr of pullRequests) {
+ *   console.log(`#${pr.number} ${pr.title}: ${pr.summary ?? ''}`)
+ * }
+ * ```
+ */
+export function parseReport(result: ReportResult): ParsedReport {
+  const markdown = result.report
+  const kind = detectReportKind(markdown)
+
+  const parsed =
+    kind === 'daily-standup'
+      ? parseDailyStandup(markdown)
+      : kind === 'pull-requests'
+        ? parsePullRequestList(markdown)
+        : { pullRequests: [], sections: parseSections(markdown) }
+
+  return { kind, group: result.group, markdown, ...parsed }
+}
+
+/**
+ * Parse every group of a report
+ */
+export function parseReports(results: ReportResult[]): ParsedReport[] {
+  return results.map(parseReport)
+}
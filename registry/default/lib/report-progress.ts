@@ -0,0 +1,422 @@
+/**
+ * CodeRabbit Report Progress
+ * Lifecycle events for stored reports, streamed to the browser with Server-Sent Events
+ */
+
+import type { ChunkProgress } from '@/registry/default/lib/chunking'
+import {
+  CODERABBIT_ERROR_CODES,
+  CodeRabbitError,
+  type CodeRabbitErrorCode,
+  type CodeRabbitErrorInfo,
+} from '@/registry/default/lib/errors'
+import type { ReportStorageAdapter } from '@/registry/default/lib/storage-adapter'
+import type { StoredReport } from '@/registry/default/lib/types'
+
+const DEFAULT_POLL_INTERVAL_MS = 2000
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 15_000
+const DEFAULT_RETRY_DELAY_MS = 2000
+
+/**
+ * Progress event for a stored report
+ *
+ * - `queued`: the pending record exists
+ * - `request_sent`: generation started
+ * - `attempt`: an API attempt started (1-based per request or chunk)
+ * - `chunk_progress`: date chunks settled so far (with `chunkBy`, first sent
+ *   when chunking starts)
+ * - `persisted`: results were written to storage
+ * - `completed`, `failed`, `cancelled`: the report finished (always last)
+ */
+export type ReportProgressEvent = {
+  reportId: string
+  /** Epoch milliseconds */
+  at: number
+} & (
+  | { type: 'queued' }
+  | { type: 'request_sent' }
+  | { type: 'attempt'; attempt: number }
+  | ({ type: 'chunk_progress' } & ChunkProgress)
+  | { type: 'persisted' }
+  | { type: 'completed'; durationMs?: number }
+  | { type: 'failed'; error: CodeRabbitErrorInfo }
+  | { type: 'cancelled' }
+)
+
+export type ReportProgressEventType = ReportProgressEvent['type']
+
+/**
+ * Distributes progress events to the streams watching a report
+ *
+ * The default bus only reaches streams served by the same process. Implement
+ * this with Redis pub/sub (or similar) when jobs run on other instances;
+ * streams also poll storage, so they finish either way.
+ */
+export interface ReportProgressBus {
+  publish(event: ReportProgressEvent): void
+  /**
+   * Listen for a report's events
+   * @returns Function that removes the listener
+   */
+  subscribe(
+    reportId: string,
+    listener: (event: ReportProgressEvent) => void,
+  ): () => void
+}
+
+/**
+ * In-process bus (the default)
+ */
+export function createMemoryProgressBus(): ReportProgressBus {
+  const listeners = new Map<
+    string,
+    Set<(event: ReportProgressEvent) => void>
+  >()
+
+  return {
+    publish(event) {
+      for (const listener of listeners.get(event.reportId) ?? []) {
+        listener(event)
+      }
+    },
+    subscribe(reportId, listener) {
+      const set = listeners.get(reportId) ?? new Set()
+      set.add(listener)
+      listeners.set(reportId, set)
+
+      return () => {
+        set.delete(listener)
+        if (set.size === 0) listeners.delete(reportId)
+      }
+    },
+  }
+}
+
+let progressBus: ReportProgressBus = createMemoryProgressBus()
+
+/**
+ * Replace the bus used by report jobs and progress streams
+ *
+ * @example
+ * ```ts
+ * // instrumentation.ts or any server module loaded at startup
+ * setReportProgressBus(createRedisProgressBus(redis))
+ * ```
+ */
+export function setReportProgressBus(bus: ReportProgressBus): void {
+  progressBus = bus
+}
+
+/**
+ * The bus set with setReportProgressBus (in-process by default)
+ */
+export function getReportProgressBus(): ReportProgressBus {
+  return progressBus
+}
+
+/**
+ * An event without the fields publishReportProgress fills in
+ */
+type ProgressEventBody<Event = ReportProgressEvent> =
+  Event extends ReportProgressEvent ? Omit<Event, 'reportId' | 'at'> : never
+
+/**
+ * Publish an event for a report on the current bus
+ * Listener errors are ignored so they never fail report generation.
+ */
+export function publishReportProgress(
+  reportId: string,
+  event: ProgressEventBody,
+): void {
+  try {
+    progressBus.publish({ ...event, reportId, at: Date.now() })
+  } catch {
+    // Progress is best-effort
+  }
+}
+
+/**
+ * Whether the report is finished after this event
+ */
+export function isFinalProgressEvent(event: ReportProgressEvent): boolean {
+  return (
+    event.type === 'completed' ||
+    event.type === 'failed' ||
+    event.type === 'cancelled'
+  )
+}
+
+function toErrorCode(code: string | undefined): CodeRabbitErrorCode {
+  return (CODERABBIT_ERROR_CODES as readonly string[]).includes(code ?? '')
+    ? (code as CodeRabbitErrorCode)
+    : 'UNKNOWN'
+}
+
+/**
+ * The event describing a stored report's current status
+ * Failures stored without a known error code use UNKNOWN.
+ */
+export function getReportStatusEvent(
+  report: StoredReport,
+): ReportProgressEvent {
+  const base = { reportId: report.id, at: Date.now() }
+  switch (report.status) {
+    case 'completed':
+      return { ...base, type: 'completed', durationMs: report.durationMs }
+    case 'failed':
+      return {
+        ...base,
+        type: 'failed',
+        error: {
+          code: toErrorCode(report.errorCode),
+          message: report.error ?? 'Failed to generate report',
+        },
+      }
+    case 'cancelled':
+      return { ...base, type: 'cancelled' }
+    default:
+      return { reportId: report.id, at: report.createdAt, type: 'queued' }
+  }
+}
+
+export interface ReportProgressStreamOptions {
+  /** Storage polled for the report's status, in case bus events are missed */
+  storage: ReportStorageAdapter
+  /** Bus to listen on (default: getReportProgressBus()) */
+  bus?: ReportProgressBus
+  /** Delay between storage reads in milliseconds (default: 2000) */
+  pollInterval?: number
+  /** Comment sent to keep proxies from closing the connection (default: 15000ms) */
+  heartbeatInterval?: number
+  /** Closes the stream, e.g. `request.signal` */
+  signal?: AbortSignal
+}
+
+/**
+ * Stream a report's progress as Server-Sent Events
+ *
+ * The first event describes the report's current status. Finished reports
+ * send only that event. Pending ones forward bus events until a `completed`,
+ * `failed` or `cancelled` event, then the stream closes.
+ *
+ * @example
+ * ```ts
+ * // app/api/reports/[id]/events/route.ts
+ * export async function GET(request: Request, { params }) {
+ *   const report = await storage.get((await params).id)
+ *   if (!report) return new Response(null, { status: 404 })
+ *   return createReportProgressResponse(report, { storage, signal: request.signal })
+ * }
+ * ```
+ */
+export function createReportProgressResponse(
+  report: StoredReport,
+  options: ReportProgressStreamOptions,
+): Response {
+  const bus = options.bus ?? progressBus
+  const encoder = new TextEncoder()
+  let cleanup = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false
+      let unsubscribe = () => {}
+      const timers: ReturnType<typeof setInterval>[] = []
+
+      const write = (text: string) => {
+        if (!closed) controller.enqueue(encoder.encode(text))
+      }
+      cleanup = () => {
+        if (closed) return
+        closed = true
+        unsubscribe()
+        timers.forEach(clearInterval)
+        options.signal?.removeEventListener('abort', close)
+      }
+      function close() {
+        if (closed) return
+        cleanup()
+        controller.close()
+      }
+      const send = (event: ReportProgressEvent) => {
+        write(`data: ${JSON.stringify(event)}\n\n`)
+        if (isFinalProgressEvent(event)) close()
+      }
+
+      send(getReportStatusEvent(report))
+      if (closed) return
+
+      if (options.signal?.aborted) return close()
+      options.signal?.addEventListener('abort', close, { once: true })
+
+      unsubscribe = bus.subscribe(report.id, send)
+
+      const poll = async () => {
+        const current = await options.storage
+          .get(report.id)
+          .catch(() => undefined)
+        if (current === undefined || closed) return
+
+        if (!current) {
+          send({
+            reportId: report.id,
+            at: Date.now(),
+            type: 'failed',
+            error: {
+              code: 'UNKNOWN',
+              message: `Report ${report.id} was not found`,
+            },
+          })
+        } else if (current.status !== 'pending') {
+          send(getReportStatusEvent(current))
+        }
+      }
+
+      timers.push(
+        setInterval(poll, options.pollInterval ?? DEFAULT_POLL_INTERVAL_MS),
+        setInterval(
+          () => write(': keep-alive\n\n'),
+          options.heartbeatInterval ?? DEFAULT_HEARTBEAT_INTERVAL_MS,
+        ),
+      )
+    },
+    cancel() {
+      cleanup()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      // Disable response buffering in nginx
+      'X-Accel-Buffering': 'no',
+    },
+  })
+}
+
+export interface FollowReportProgressOptions {
+  /** Called for every event, in order */
+  onEvent?: (event: ReportProgressEvent) => void
+  /** Stop following (rejects with the abort reason) */
+  signal?: AbortSignal
+  /** Extra request headers (e.g. authorization) */
+  headers?: HeadersInit
+  /** Fetch implementation (default: global fetch) */
+  fetch?: typeof fetch
+  /** Delay before reconnecting a dropped stream in milliseconds (default: 2000) */
+  retryDelay?: number
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timer)
+      resolve()
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Parse one Server-Sent Events message (null for comments and unknown data)
+ */
+function parseProgressMessage(message: string): ReportProgressEvent | null {
+  const data = message
+    .split(/\r?\n/)
+    .filter((line) => line.startsWith('data:'))
+    .map((line) => line.slice(5).trimStart())
+    .join('\n')
+  if (!data) return null
+
+  try {
+    return JSON.parse(data) as ReportProgressEvent
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Follow a report's progress stream until it finishes
+ *
+ * Dropped connections (e.g. serverless timeouts) are reopened after
+ * `retryDelay`. Error responses reject with a CodeRabbitError carrying the
+ * server's code.
+ *
+ * @returns The final event (`completed`, `failed` or `cancelled`)
+ *
+ * @example
+ * ```ts
+ * const final = await followReportProgress(
+ *   `/api/coderabbit/reports/${reportId}/events`,
+ *   { onEvent: (event) => console.log(event.type) },
+ * )
+ * ```
+ */
+export async function followReportProgress(
+  url: string,
+  options?: FollowReportProgressOptions,
+): Promise<ReportProgressEvent> {
+  const fetchImpl = options?.fetch ?? fetch
+  const signal = options?.signal
+  const decoder = new TextDecoder()
+  const headers = new Headers(options?.headers)
+  headers.set('Accept', 'text/event-stream')
+
+  while (!signal?.aborted) {
+    let response: Response
+    try {
+      response = await fetchImpl(url, { headers, signal })
+    } catch {
+      if (signal?.aborted) break
+      await sleep(options?.retryDelay ?? DEFAULT_RETRY_DELAY_MS, signal)
+      continue
+    }
+
+    if (!response.ok || !response.body) {
+      const body = (await response.json().catch(() => null)) as {
+        error?: CodeRabbitErrorInfo
+      } | null
+      throw new CodeRabbitError(
+        body?.error?.code ?? 'UNEXPECTED_RESPONSE',
+        body?.error?.message ??
+          `Progress stream failed with HTTP ${response.status}`,
+        { status: response.status },
+      )
+    }
+
+    const reader = response.body.getReader()
+    let buffer = ''
+    try {
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+
+        buffer += decoder.decode(value, { stream: true })
+        const messages = buffer.split(/\r?\n\r?\n/)
+        buffer = messages.pop() ?? ''
+
+        for (const message of messages) {
+          const event = parseProgressMessage(message)
+          if (!event) continue
+
+          options?.onEvent?.(event)
+          if (isFinalProgressEvent(event)) return event
+        }
+      }
+    } catch {
+      // Dropped mid-stream: reconnect below
+    } finally {
+      reader.cancel().catch(() => {})
+    }
+
+    if (signal?.aborted) break
+    await sleep(options?.retryDelay ?? DEFAULT_RETRY_DELAY_MS, signal)
+  }
+
+  throw signal!.reason
+}
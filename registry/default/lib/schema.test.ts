@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest'
+import {
+  generateReportTableSql,
+  STORED_REPORT_FIELDS,
+} from '@/registry/default/lib/schema'
+
+describe('generateReportTableSql', () => {
+  it.each(['postgres', 'mysql', 'supabase'] as const)(
+    'marks required %s columns NOT NULL',
+    (dialect) => {
+      const columns = new Map(
+        generateReportTableSql(dialect)
+          .split('\n')
+          .map((line) => line.trim().split(' '))
+          .map(([column, ...type]) => [column, type.join(' ').toUpperCase()]),
+      )
+
+      for (const field of STORED_REPORT_FIELDS) {
+        const type = columns.get(field.column)
+        if (field.kind === 'id') {
+          expect(type).toContain('PRIMARY KEY')
+        } else if (field.required) {
+          expect(type).toContain('NOT NULL')
+        } else {
+          expect(type).not.toContain('NOT NULL')
+        }
+      }
+    },
+  )
+})
@@ -0,0 +1,540 @@
+/**
+ * CodeRabbit Schema
+ * One definition of the report models: Standard Schema validators, row mapping, Convex validators and SQL DDL
+ */
+
+import {
+  REPORT_STATUSES,
+  type FilterConfig,
+  type ReportGenerateRequest,
+  type ReportResult,
+  type StoredReport,
+} from '@/registry/default/lib/types'
+import {
+  isValidIsoDate,
+  validateFilterConfig,
+  validateReportRequest,
+  validateReportResults,
+  type ValidationIssue,
+  type ValidationResult,
+} from '@/registry/default/lib/validation'
+
+/**
+ * Standard Schema v1 (https://standardschema.dev)
+ * Accepted by tRPC, TanStack Form, react-hook-form resolvers and others.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': {
+    readonly version: 1
+    readonly vendor: string
+    readonly validate: (value: unknown) => StandardSchemaResult<Output>
+    readonly types?: { readonly input: Input; readonly output: Output }
+  }
+}
+
+export interface StandardSchemaIssue {
+  readonly message: string
+  readonly path?: ReadonlyArray<PropertyKey>
+}
+
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> }
+
+/**
+ * Column kinds, mapped to a type per target (validator, Convex, SQL dialect)
+ */
+export type SchemaFieldKind =
+  | 'id'
+  | 'status'
+  | 'date'
+  | 'string'
+  | 'text'
+  | 'integer'
+  | 'timestamp'
+  | 'filters'
+  | 'results'
+
+export interface SchemaField {
+  key: keyof StoredReport
+  /** snake_case column name in SQL tables */
+  column: string
+  kind: SchemaFieldKind
+  required?: boolean
+  /** Maximum length for `string` fields */
+  maxLength?: number
+}
+
+/**
+ * StoredReport fields in column order
+ * `prompt` is stored in the `custom_prompt` column for compatibility with existing tables.
+ */
+export const STORED_REPORT_FIELDS: readonly SchemaField[] = [
+  { key: 'id', column: 'id', kind: 'id', required: true },
+  { key: 'status', column: 'status', kind: 'status', required: true },
+  { key: 'fromDate', column: 'from_date', kind: 'date', required: true },
+  { key: 'toDate', column: 'to_date', kind: 'date', required: true },
+  {
+    key: 'promptTemplate',
+    column: 'prompt_template',
+    kind: 'string',
+    maxLength: 255,
+  },
+  { key: 'prompt', column: 'custom_prompt', kind: 'text' },
+  { key: 'groupBy', column: 'group_by', kind: 'string', maxLength: 50 },
+  { key: 'subgroupBy', column: 'subgroup_by', kind: 'string', maxLength: 50 },
+  { key: 'orgId', column: 'org_id', kind: 'string', maxLength: 255 },
+  { key: 'timeZone', column: 'time_zone', kind: 'string', maxLength: 64 },
+  { key: 'parameters', column: 'parameters', kind: 'filters' },
+  { key: 'results', column: 'results', kind: 'results', required: true },
+  { key: 'error', column: 'error', kind: 'text' },
+  { key: 'errorCode', column: 'error_code', kind: 'string', maxLength: 64 },
+  { key: 'durationMs', column: 'duration_ms', kind: 'integer' },
+  { key: 'createdAt', column: 'created_at', kind: 'timestamp', required: true },
+]
+
+/**
+ * A database row keyed by column name
+ */
+export type ReportRow = Record<string, unknown>
+
+/**
+ * Fields set by the storage backend on insert
+ */
+const GENERATED_FIELDS = new Set<keyof StoredReport>(['id', 'createdAt'])
+
+/**
+ * Columns written on insert, in order
+ */
+export const REPORT_INSERT_COLUMNS = STORED_REPORT_FIELDS.filter(
+  (field) => !GENERATED_FIELDS.has(field.key),
+).map((field) => field.column)
+
+function toStandardIssues(issues: ValidationIssue[]): StandardSchemaIssue[] {
+  return issues.map((issue) => ({
+    message: issue.message,
+    path: issue.field
+      ? issue.field
+          .split('.')
+          .map((segment) => (/^\d+$/.test(segment) ? Number(segment) : segment))
+      : undefined,
+  }))
+}
+
+function createSchema<T>(
+  validate: (value: unknown) => ValidationIssue[],
+): StandardSchemaV1<T> {
+  return {
+    '~standard': {
+      version: 1,
+      vendor: 'coderabbit',
+      validate: (value) => {
+        const issues = validate(value)
+        return issues.length > 0
+          ? { issues: toStandardIssues(issues) }
+          : { value: value as T }
+      },
+    },
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function validateField(field: SchemaField, value: unknown): string | null {
+  switch (field.kind) {
+    case 'id':
+      return typeof value === 'string' && value ? null : 'must be a string'
+    case 'status':
+      return (REPORT_STATUSES as readonly unknown[]).includes(value)
+        ? null
+        : `must be one of: ${REPORT_STATUSES.join(', ')}`
+    case 'date':
+      return isValidIsoDate(value) ? null : 'must be a date (YYYY-MM-DD)'
+    case 'string':
+      if (typeof value !== 'string') return 'must be a string'
+      return field.maxLength && value.length > field.maxLength
+        ? `must be at most ${field.maxLength} characters`
+        : null
+    case 'text':
+      return typeof value === 'string' ? null : 'must be a string'
+    case 'integer':
+      return Number.isInteger(value) && (value as number) >= 0
+        ? null
+        : 'must be a non-negative integer'
+    case 'timestamp':
+      return Number.isFinite(value) ? null : 'must be a timestamp in ms'
+    case 'filters':
+    case 'results':
+      return Array.isArray(value) ? null : 'must be an array'
+  }
+}
+
+/**
+ * Validate a stored report
+ * Pass `{ generated: false }` for data passed to `ReportStorageAdapter.create`
+ * (no `id` or `createdAt` yet).
+ */
+export function validateStoredReport(
+  value: unknown,
+  options?: { generated?: boolean },
+): ValidationResult {
+  if (!isObject(value)) {
+    return {
+      valid: false,
+      issues: [{ field: '', message: 'Report must be an object' }],
+    }
+  }
+
+  const issues: ValidationIssue[] = []
+  const fields = STORED_REPORT_FIELDS.filter(
+    (field) => options?.generated !== false || !GENERATED_FIELDS.has(field.key),
+  )
+
+  for (const field of fields) {
+    const fieldValue = value[field.key]
+    if (fieldValue === undefined || fieldValue === null) {
+      if (field.required) {
+        issues.push({ field: field.key, message: `${field.key} is required` })
+      }
+      continue
+    }
+
+    const problem = validateField(field, fieldValue)
+    if (problem) {
+      issues.push({ field: field.key, message: `${field.key} ${problem}` })
+    } else if (field.kind === 'filters') {
+      for (const [index, filter] of (fieldValue as unknown[]).entries()) {
+        issues.push(...validateFilterConfig(filter, `${field.key}.${index}`))
+      }
+    } else if (field.kind === 'results') {
+      issues.push(
+        ...validateReportResults(fieldValue).issues.map((issue) => ({
+          ...issue,
+          field: `${field.key}.${issue.field}`,
+        })),
+      )
+    }
+  }
+
+  return { valid: issues.length === 0, issues }
+}
+
+/**
+ * Report request (same rules as the client and form)
+ */
+export const reportGenerateRequestSchema =
+  createSchema<ReportGenerateRequest>(
+    (value) => validateReportRequest(value).issues,
+  )
+
+export const filterConfigSchema = createSchema<FilterConfig>((value) =>
+  validateFilterConfig(value),
+)
+
+export const reportResultSchema = createSchema<ReportResult>(
+  (value) =>
+    validateReportResults([value]).issues.map((issue) => ({
+      ...issue,
+      field: issue.field.replace(/^0\.?/, ''),
+    })),
+)
+
+export const storedReportSchema = createSchema<StoredReport>(
+  (value) => validateStoredReport(value).issues,
+)
+
+/**
+ * Data passed to `ReportStorageAdapter.create`
+ */
+export const storedReportInputSchema = createSchema<
+  Omit<StoredReport, 'id' | 'createdAt'>
+>((value) => validateStoredReport(value, { generated: false }).issues)
+
+/**
+ * Throw if data for `ReportStorageAdapter.create` is invalid
+ */
+export function assertValidReportInput(
+  data: Omit<StoredReport, 'id' | 'createdAt'>,
+): void {
+  const { valid, issues } = validateStoredReport(data, { generated: false })
+  if (!valid) {
+    throw new Error(
+      `Invalid report: ${issues.map((issue) => issue.message).join('; ')}`,
+    )
+  }
+}
+
+/**
+ * Map report fields to snake_case columns
+ *
+ * Only fields present in `data` are included. With `serializeJson`, filters and
+ * results are JSON strings (for drivers that don't encode JSON columns).
+ */
+export function toReportRow(
+  data: Partial<StoredReport>,
+  options?: { serializeJson?: boolean },
+): ReportRow {
+  const row: ReportRow = {}
+  const values: Partial<StoredReport> = {
+    ...data,
+    prompt: data.prompt ?? data.customPrompt,
+  }
+
+  for (const field of STORED_REPORT_FIELDS) {
+    if (!(field.key in values) || values[field.key] === undefined) continue
+
+    const value = values[field.key]
+    const isJson = field.kind === 'filters' || field.kind === 'results'
+    row[field.column] =
+      isJson && options?.serializeJson ? JSON.stringify(value) : value
+  }
+
+  return row
+}
+
+function parseJson<T>(value: unknown, fallback: T): T {
+  if (value === null || value === undefined) return fallback
+  if (typeof value !== 'string') return value as T
+  try {
+    return JSON.parse(value) as T
+  } catch {
+    return fallback
+  }
+}
+
+/**
+ * Map a snake_case row back to a StoredReport
+ * Nulls become undefined, JSON strings are parsed and timestamps become ms.
+ */
+export function fromReportRow(row: ReportRow): StoredReport {
+  const report: Record<string, unknown> = {}
+
+  for (const field of STORED_REPORT_FIELDS) {
+    const value = row[field.column]
+
+    switch (field.kind) {
+      case 'filters':
+        report[field.key] = parseJson<FilterConfig[]>(value, [])
+        break
+      case 'results':
+        report[field.key] = parseJson<ReportResult[]>(value, [])
+        break
+      case 'timestamp':
+        report[field.key] = new Date(value as string | number | Date).getTime()
+        break
+      case 'integer':
+        report[field.key] =
+          value === null || value === undefined ? undefined : Number(value)
+        break
+      case 'id':
+        report[field.key] = String(value)
+        break
+      default:
+        report[field.key] = value ?? undefined
+    }
+  }
+
+  // Older consumers read customPrompt
+  report.customPrompt = report.prompt
+  return report as unknown as StoredReport
+}
+
+/**
+ * The parts of Convex's `v` used to build the table validator
+ */
+export interface ConvexValidatorBuilder<V = unknown> {
+  string(): V
+  number(): V
+  literal(value: string): V
+  union(...members: V[]): V
+  array(element: V): V
+  object(shape: Record<string, V>): V
+  optional(value: V): V
+}
+
+/**
+ * Convex field validators for the coderabbit_reports table
+ * Convex generates `_id`, so `id` is omitted.
+ *
+ * @example
+ * ```ts
+ * import { defineTable } from 'convex/server'
+ * import { v } from 'convex/values'
+ *
+ * export const coderabbitReportsTable = defineTable(getConvexReportFields(v))
+ * ```
+ */
+export function getConvexReportFields<V>(
+  v: ConvexValidatorBuilder<V>,
+): Record<string, V> {
+  const toValidator = (kind: SchemaFieldKind): V => {
+    switch (kind) {
+      case 'status':
+        return v.union(...REPORT_STATUSES.map((status) => v.literal(status)))
+      case 'integer':
+      case 'timestamp':
+        return v.number()
+      case 'filters':
+        return v.array(
+          v.object({
+            parameter: v.string(),
+            operator: v.string(),
+            values: v.array(v.string()),
+          }),
+        )
+      case 'results':
+        return v.array(v.object({ group: v.string(), report: v.string() }))
+      default:
+        return v.string()
+    }
+  }
+
+  return Object.fromEntries(
+    STORED_REPORT_FIELDS.filter((field) => field.kind !== 'id').map(
+      (field) => {
+        const validator = toValidator(field.kind)
+        return [field.key, field.required ? validator : v.optional(validator)]
+      },
+    ),
+  )
+}
+
+export type SqlDialect = 'postgres' | 'mysql' | 'supabase'
+
+/**
+ * Column type per dialect. `notNull` is ` NOT NULL` (` not null` for
+ * Supabase) for required fields and empty otherwise.
+ */
+const SQL_TYPES: Record<
+  SqlDialect,
+  (field: SchemaField, statuses: string, notNull: string) => string
+> = {
+  postgres: (field, statuses, notNull) => {
+    switch (field.kind) {
+      case 'id':
+        return 'UUID PRIMARY KEY DEFAULT gen_random_uuid()'
+      case 'status':
+        return `VARCHAR(20)${notNull} CHECK (status IN (${statuses}))`
+      case 'date':
+        return `VARCHAR(255)${notNull}`
+      case 'string':
+        return `VARCHAR(${field.maxLength ?? 255})${notNull}`
+      case 'text':
+        return `TEXT${notNull}`
+      case 'integer':
+        return `INTEGER${notNull}`
+      case 'timestamp':
+        return `TIMESTAMPTZ${notNull} DEFAULT NOW()`
+      case 'filters':
+        return `JSONB${notNull} DEFAULT '[]'::jsonb`
+      case 'results':
+        return `JSONB${notNull}`
+    }
+  },
+  mysql: (field, statuses, notNull) => {
+    switch (field.kind) {
+      case 'id':
+        return 'CHAR(36) PRIMARY KEY DEFAULT (UUID())'
+      case 'status':
+        return `ENUM(${statuses})${notNull}`
+      case 'date':
+        return `VARCHAR(255)${notNull}`
+      case 'string':
+        return `VARCHAR(${field.maxLength ?? 255})${notNull}`
+      case 'text':
+        return `TEXT${notNull}`
+      case 'integer':
+        return `INT${notNull}`
+      case 'timestamp':
+        return `TIMESTAMP${notNull} DEFAULT CURRENT_TIMESTAMP`
+      case 'filters':
+      case 'results':
+        return `JSON${notNull}`
+    }
+  },
+  supabase: (field, statuses, notNull) => {
+    switch (field.kind) {
+      case 'id':
+        return 'uuid primary key default gen_random_uuid()'
+      case 'status':
+        return `text${notNull} check (status in (${statuses}))`
+      case 'date':
+      case 'string':
+      case 'text':
+        return `text${notNull}`
+      case 'integer':
+        return `integer${notNull}`
+      case 'timestamp':
+        return `timestamptz${notNull} default now()`
+      case 'filters':
+        return `jsonb${notNull} default '[]'::jsonb`
+      case 'results':
+        return `jsonb${notNull}`
+    }
+  },
+}
+
+const OWNER_COLUMN: Record<SqlDialect, string> = {
+  postgres: 'user_id VARCHAR(255)',
+  mysql: 'user_id VARCHAR(255)',
+  supabase: 'user_id uuid references auth.users(id)',
+}
+
+/**
+ * CREATE TABLE statement (plus indexes) for the SQL adapters
+ * Includes a `user_id` column for per-user access rules.
+ *
+ * @example
+ * ```ts
+ * await pool.query(generateReportTableSql('postgres'))
+ * ```
+ */
+export function generateReportTableSql(
+  dialect: SqlDialect,
+  options?: { tableName?: string },
+): string {
+  const table = options?.tableName ?? 'coderabbit_reports'
+  const statuses = REPORT_STATUSES.map((status) => `'${status}'`).join(', ')
+  const notNull = dialect === 'supabase' ? ' not null' : ' NOT NULL'
+  const columns = [
+    ...STORED_REPORT_FIELDS.map(
+      (field) =>
+        `${field.column} ${SQL_TYPES[dialect](
+          field,
+          statuses,
+          field.required ? notNull : '',
+        )}`,
+    ),
+    OWNER_COLUMN[dialect],
+  ]
+
+  if (dialect === 'mysql') {
+    return [
+      `CREATE TABLE ${table} (`,
+      [
+        ...columns,
+        'INDEX idx_status (status)',
+        'INDEX idx_user_id (user_id)',
+        'INDEX idx_created_at (created_at DESC)',
+      ]
+        .map((line) => `  ${line}`)
+        .join(',\n'),
+      ') ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;',
+    ].join('\n')
+  }
+
+  const keyword = (sql: string) =>
+    dialect === 'supabase' ? sql.toLowerCase() : sql
+
+  return [
+    `${keyword('CREATE TABLE')} ${table} (`,
+    columns.map((line) => `  ${line}`).join(',\n'),
+    ');',
+    '',
+    `${keyword('CREATE INDEX')} idx_reports_status ${keyword('ON')} ${table}(status);`,
+    `${keyword('CREATE INDEX')} idx_reports_user_id ${keyword('ON')} ${table}(user_id);`,
+    `${keyword('CREATE INDEX')} idx_reports_created_at ${keyword('ON')} ${table}(created_at ${keyword('DESC')});`,
+  ].join('\n')
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest'
+import { waitForReport } from '@/registry/default/lib/storage-adapter'
+import type { ReportStatus, StoredReport } from '@/registry/default/lib/types'
+
+function report(status: ReportStatus, createdAt = Date.now()): StoredReport {
+  return {
+    id: 'report-1',
+    createdAt,
+    status,
+    fromDate: '2024-01-01',
+    toDate: '2024-01-31',
+    results: [],
+  }
+}
+
+describe('waitForReport', () => {
+  it('resolves once the report leaves pending', async () => {
+    const statuses: ReportStatus[] = ['pending', 'pending', 'completed']
+    const result = await waitForReport(
+      async () => report(statuses.shift()!),
+      'report-1',
+      { interval: 1 },
+    )
+
+    expect(result?.status).toBe('completed')
+    expect(statuses).toEqual([])
+  })
+
+  it('returns the pending report once it is older than the timeout', async () => {
+    let reads = 0
+    const createdAt = Date.now() - 60_000
+    const result = await waitForReport(
+      async () => {
+        reads++
+        return report('pending', createdAt)
+      },
+      'report-1',
+      { interval: 1, timeout: 30_000 },
+    )
+
+    expect(result?.status).toBe('pending')
+    expect(reads).toBe(1)
+  })
+
+  it('removes its abort listener after each poll', async () => {
+    const controller = new AbortController()
+    const listeners = new Set<unknown>()
+    const signal = controller.signal
+    const add = signal.addEventListener.bind(signal)
+    const remove = signal.removeEventListener.bind(signal)
+    signal.addEventListener = (
+      type: string,
+      listener: never,
+      options?: never,
+    ) => {
+      listeners.add(listener)
+      add(type, listener, options)
+    }
+    signal.removeEventListener = (type: string, listener: never) => {
+      listeners.delete(listener)
+      remove(type, listener)
+    }
+
+    const statuses: ReportStatus[] = ['pending', 'pending', 'failed']
+    await waitForReport(async () => report(statuses.shift()!), 'report-1', {
+      interval: 1,
+      signal,
+    })
+
+    expect(listeners.size).toBe(0)
+  })
+
+  it('rejects with the abort reason', async () => {
+    const controller = new AbortController()
+    controller.abort(new Error('stopped'))
+
+    await expect(
+      waitForReport(async () => report('pending'), 'report-1', {
+        signal: controller.signal,
+      }),
+    ).rejects.toThrow('stopped')
+  })
+})
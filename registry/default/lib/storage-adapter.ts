@@ -4,7 +4,10 @@
  */
 
 import type {
+  GroupBy,
+  PromptTemplate,
   StoredReport,
+  ReportGenerateRequest,
   ReportResult,
 } from '@/registry/default/lib/types'
 
@@ -16,6 +19,125 @@ export interface ListReportsResponse {
   total: number
 }
 
+/**
+ * Request fields as stored on a report record
+ *
+ * @example
+ * ```ts
+ * await storage.create({ ...toReportRecord(request), status: 'pending', results: [] })
+ * ```
+ */
+export function toReportRecord(
+  request: ReportGenerateRequest,
+): Omit<StoredReport, 'id' | 'createdAt' | 'status' | 'results'> {
+  return {
+    fromDate: request.from,
+    toDate: request.to,
+    promptTemplate: request.promptTemplate,
+    prompt: request.prompt,
+    groupBy: request.groupBy,
+    subgroupBy: request.subgroupBy,
+    orgId: request.orgId,
+    timeZone: request.timeZone,
+    parameters: request.parameters,
+  }
+}
+
+/**
+ * Rebuild the request a report was generated from
+ */
+export function toReportRequest(report: StoredReport): ReportGenerateRequest {
+  return {
+    from: report.fromDate,
+    to: report.toDate,
+    promptTemplate: report.promptTemplate as PromptTemplate | undefined,
+    prompt: report.prompt ?? report.customPrompt,
+    groupBy: report.groupBy as GroupBy | undefined,
+    subgroupBy: report.subgroupBy as GroupBy | undefined,
+    orgId: report.orgId,
+    timeZone: report.timeZone,
+    parameters: report.parameters,
+  }
+}
+
+/**
+ * Mark a report as cancelled
+ * Adapters without updateCancelled record it as a failure instead.
+ */
+export async function markReportCancelled(
+  storage: ReportStorageAdapter,
+  id: string,
+  durationMs: number,
+): Promise<void> {
+  if (storage.updateCancelled) {
+    return storage.updateCancelled(id, durationMs)
+  }
+  return storage.updateFailure(
+    id,
+    'CodeRabbit report generation was cancelled',
+    durationMs,
+    'CANCELLED',
+  )
+}
+
+export interface WaitForReportOptions {
+  /** Delay between reads in milliseconds (default: 2000) */
+  interval?: number
+  /** Stop polling (rejects with the abort reason) */
+  signal?: AbortSignal
+  /**
+   * Stop once the report has been pending this long (default: no limit)
+   * Measured from `createdAt`, so a reload doesn't restart the clock.
+   */
+  timeout?: number
+}
+
+/**
+ * Read a report until it leaves `pending`
+ * Resolves with the finished report, the still-pending report once `timeout`
+ * is reached (e.g. its job was killed), or null if it no longer exists
+ *
+ * @example
+ * ```ts
+ * const report = await waitForReport((id) => storage.get(id), reportId)
+ * if (report?.status === 'completed') render(report.results)
+ * ```
+ */
+export async function waitForReport(
+  getReport: (id: string) => Promise<StoredReport | null>,
+  reportId: string,
+  options?: WaitForReportOptions,
+): Promise<StoredReport | null> {
+  const interval = options?.interval ?? 2000
+  const signal = options?.signal
+
+  while (!signal?.aborted) {
+    const report = await getReport(reportId)
+    if (!report || report.status !== 'pending') return report
+    if (
+      options?.timeout !== undefined &&
+      Date.now() - report.createdAt >= options.timeout
+    ) {
+      return report
+    }
+
+    await new Promise<void>((resolve) => {
+      const onAbort = () => {
+        clearTimeout(timer)
+        resolve()
+      }
+      // Remove the listener each round so long waits don't pile them up
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort)
+        resolve()
+      }, interval)
+      signal?.addEventListener('abort', onAbort, { once: true })
+    })
+  }
+
+  throw signal.reason
+}
+
 /**
  * Report storage adapter interface
  *
@@ -44,8 +166,20 @@ export interface ReportStorageAdapter {
 
   /**
    * Update report with failure error
+   * `errorCode` is the CodeRabbitErrorCode, reported by progress streams.
+   */
+  updateFailure(
+    id: string,
+    error: string,
+    durationMs: number,
+    errorCode?: string,
+  ): Promise<void>
+
+  /**
+   * Mark report as cancelled by the user
+   * Optional: without it, cancellations are stored with updateFailure.
    */
-  updateFailure(id: string, error: string, durationMs: number): Promise<void>
+  updateCancelled?(id: string, durationMs: number): Promise<void>
 
   /**
    * Get report by ID
@@ -55,11 +189,14 @@ export interface ReportStorageAdapter {
 
   /**
    * List all reports (with optional pagination)
+   * `orgIds` limits reports (and `total`) to those organizations before paging;
+   * reports without an orgId match `''`.
    * @returns Reports array and total count for pagination
    */
   list(options?: {
     limit?: number
     offset?: number
+    orgIds?: string[]
   }): Promise<ListReportsResponse>
 
   /**
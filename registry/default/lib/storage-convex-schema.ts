@@ -5,44 +5,18 @@
  */
 
 import { defineTable } from 'convex/server'
-import { v } from 'convex/values'
+import { v, type GenericValidator } from 'convex/values'
+import { getConvexReportFields } from '@/registry/default/lib/schema'
 
 /**
  * CodeRabbit reports table schema
  * Use this exact table name: coderabbit_reports
+ * Fields come from STORED_REPORT_FIELDS in lib/schema
  */
 export const coderabbitReportsTable = defineTable({
-  fromDate: v.string(),
-  toDate: v.string(),
-  prompt: v.optional(v.string()),
-  promptTemplate: v.optional(v.string()),
+  ...getConvexReportFields<GenericValidator>(v),
+  // Older records stored the custom prompt here
   customPrompt: v.optional(v.string()),
-  groupBy: v.optional(v.string()),
-  subgroupBy: v.optional(v.string()),
-  orgId: v.optional(v.string()),
-  parameters: v.optional(
-    v.array(
-      v.object({
-        parameter: v.string(),
-        operator: v.string(),
-        values: v.array(v.string()),
-      }),
-    ),
-  ),
-  results: v.array(
-    v.object({
-      group: v.string(),
-      report: v.string(),
-    }),
-  ),
-  status: v.union(
-    v.literal('pending'),
-    v.literal('completed'),
-    v.literal('failed'),
-  ),
-  error: v.optional(v.string()),
-  createdAt: v.number(),
-  durationMs: v.optional(v.number()),
 })
   .index('by_status', ['status'])
   .index('by_created_at', ['createdAt'])
@@ -29,6 +29,8 @@ interface ConvexCodeRabbitApi {
     createReport: unknown
     updateReportSuccess: unknown
     updateReportFailure: unknown
+    /** Optional: cancellations are stored as failures without it */
+    updateReportCancelled?: unknown
     getReport: unknown
     listReports: unknown
     deleteReport: unknown
@@ -69,21 +71,41 @@ export class ConvexStorageAdapter implements ReportStorageAdapter {
     id: string,
     error: string,
     durationMs: number,
+    errorCode?: string,
   ): Promise<void> {
     await this.client.mutation(this.api.coderabbit.updateReportFailure, {
       id,
       error,
       durationMs,
+      errorCode,
     })
   }
 
+  async updateCancelled(id: string, durationMs: number): Promise<void> {
+    const { updateReportCancelled } = this.api.coderabbit
+    if (!updateReportCancelled) {
+      return this.updateFailure(
+        id,
+        'CodeRabbit report generation was cancelled',
+        durationMs,
+        'CANCELLED',
+      )
+    }
+    await this.client.mutation(updateReportCancelled, { id, durationMs })
+  }
+
   async get(id: string): Promise<StoredReport | null> {
     return await this.client.query(this.api.coderabbit.getReport, { id })
   }
 
+  /**
+   * `orgIds` is passed to your listReports query, which must filter on it
+   * before paginating
+   */
   async list(options?: {
     limit?: number
     offset?: number
+    orgIds?: string[]
   }): Promise<ListReportsResponse> {
     return await this.client.query(
       this.api.coderabbit.listReports,
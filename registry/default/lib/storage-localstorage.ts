@@ -66,6 +66,7 @@ export class LocalStorageAdapter implements ReportStorageAdapter {
       groupBy: data.groupBy,
       subgroupBy: data.subgroupBy,
       orgId: data.orgId,
+      timeZone: data.timeZone,
       parameters: data.parameters,
       results: data.results || [],
       status: data.status || 'pending',
@@ -98,6 +99,7 @@ export class LocalStorageAdapter implements ReportStorageAdapter {
     id: string,
     error: string,
     durationMs: number,
+    errorCode?: string,
   ): Promise<void> {
     const reports = this.getReports()
     const report = reports.find((r) => r.id === id)
@@ -105,6 +107,17 @@ export class LocalStorageAdapter implements ReportStorageAdapter {
 
     report.status = 'failed'
     report.error = error
+    report.errorCode = errorCode
+    report.durationMs = durationMs
+    this.saveReports(reports)
+  }
+
+  async updateCancelled(id: string, durationMs: number): Promise<void> {
+    const reports = this.getReports()
+    const report = reports.find((r) => r.id === id)
+    if (!report) throw new Error(`Report not found: ${id}`)
+
+    report.status = 'cancelled'
     report.durationMs = durationMs
     this.saveReports(reports)
   }
@@ -117,8 +130,12 @@ export class LocalStorageAdapter implements ReportStorageAdapter {
   async list(options?: {
     limit?: number
     offset?: number
+    orgIds?: string[]
   }): Promise<ListReportsResponse> {
-    const reports = this.getReports()
+    const orgIds = options?.orgIds
+    const reports = this.getReports().filter(
+      (report) => !orgIds || orgIds.includes(report.orgId ?? ''),
+    )
     const sorted = reports.sort((a, b) => b.createdAt - a.createdAt)
     const total = sorted.length
 
@@ -2,11 +2,17 @@ import type {
   ReportStorageAdapter,
   ListReportsResponse,
 } from '@/registry/default/lib/storage-adapter'
+import {
+  assertValidReportInput,
+  fromReportRow,
+  REPORT_INSERT_COLUMNS,
+  toReportRow,
+  type ReportRow,
+} from '@/registry/default/lib/schema'
 import type {
   StoredReport,
   ReportStatus,
   ReportResult,
-  FilterConfig,
 } from '@/registry/default/lib/types'
 import type { Pool, RowDataPacket } from 'mysql2/promise'
 
@@ -16,25 +22,9 @@ export interface MySQLStorageConfig {
 }
 
 /**
- * Database row type matching the MySQL schema (snake_case columns)
+ * Database row (snake_case columns, see STORED_REPORT_FIELDS)
  */
-interface DatabaseReportRow extends RowDataPacket {
-  id: string
-  status: ReportStatus
-  from_date: string
-  to_date: string
-  prompt_template: string | null
-  custom_prompt: string | null
-  group_by: string | null
-  subgroup_by: string | null
-  org_id: string | null
-  parameters: FilterConfig[] | null
-  results: ReportResult[] | null
-  error: string | null
-  duration_ms: number | null
-  created_at: Date
-  user_id: string | null
-}
+type DatabaseReportRow = ReportRow & RowDataPacket
 
 interface CountRow extends RowDataPacket {
   count: number
@@ -62,11 +52,11 @@ interface CountRow extends RowDataPacket {
  * const storage = new MySQLStorageAdapter({ pool })
  * ```
  *
- * Database schema:
+ * Database schema (generated by `generateReportTableSql('mysql')`):
  * ```sql
  * CREATE TABLE coderabbit_reports (
  *   id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
- *   status ENUM('pending', 'completed', 'failed') NOT NULL,
+ *   status ENUM('pending', 'completed', 'failed', 'cancelled') NOT NULL,
  *   from_date VARCHAR(255) NOT NULL,
  *   to_date VARCHAR(255) NOT NULL,
  *   prompt_template VARCHAR(255),
@@ -74,17 +64,26 @@ interface CountRow extends RowDataPacket {
  *   group_by VARCHAR(50),
  *   subgroup_by VARCHAR(50),
  *   org_id VARCHAR(255),
+ *   time_zone VARCHAR(64),
  *   parameters JSON,
- *   results JSON,
+ *   results JSON NOT NULL,
  *   error TEXT,
+ *   error_code VARCHAR(64),
  *   duration_ms INT,
- *   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+ *   created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
  *   user_id VARCHAR(255),
  *   INDEX idx_status (status),
  *   INDEX idx_user_id (user_id),
  *   INDEX idx_created_at (created_at DESC)
  * ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
  * ```
+ *
+ * Tables created before the `cancelled` status need the enum updated, or
+ * updateCancelled fails:
+ * ```sql
+ * ALTER TABLE coderabbit_reports
+ *   MODIFY status ENUM('pending', 'completed', 'failed', 'cancelled') NOT NULL;
+ * ```
  */
 export class MySQLStorageAdapter implements ReportStorageAdapter {
   private pool: Pool
@@ -96,28 +95,18 @@ export class MySQLStorageAdapter implements ReportStorageAdapter {
   }
 
   async create(data: Omit<StoredReport, 'id' | 'createdAt'>): Promise<string> {
+    assertValidReportInput(data)
+
+    const row = toReportRow(
+      { ...data, parameters: data.parameters || [] },
+      { serializeJson: true }
+    )
     const query = `
-      INSERT INTO ${this.tableName} (
-        id, status, from_date, to_date, prompt_template, custom_prompt,
-        group_by, subgroup_by, org_id, parameters, results, error, duration_ms
-      )
-      VALUES (UUID(), ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO ${this.tableName} (id, ${REPORT_INSERT_COLUMNS.join(', ')})
+      VALUES (UUID(), ${REPORT_INSERT_COLUMNS.map(() => '?').join(', ')})
     `
 
-    const values = [
-      data.status,
-      data.fromDate,
-      data.toDate,
-      data.promptTemplate,
-      data.customPrompt,
-      data.groupBy,
-      data.subgroupBy,
-      data.orgId,
-      JSON.stringify(data.parameters || []),
-      data.results ? JSON.stringify(data.results) : null,
-      data.error,
-      data.durationMs,
-    ]
+    const values = REPORT_INSERT_COLUMNS.map((column) => row[column] ?? null)
 
     try {
       await this.pool.execute(query, values)
@@ -127,7 +116,7 @@ export class MySQLStorageAdapter implements ReportStorageAdapter {
         `SELECT id FROM ${this.tableName} ORDER BY created_at DESC LIMIT 1`
       )
 
-      return idRows[0].id
+      return String(idRows[0].id)
     } catch (error) {
       throw new Error(
         `Failed to create report: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -160,15 +149,34 @@ export class MySQLStorageAdapter implements ReportStorageAdapter {
   async updateFailure(
     id: string,
     errorMessage: string,
-    durationMs: number
+    durationMs: number,
+    errorCode?: string
   ): Promise<void> {
     const query = `
       UPDATE ${this.tableName}
-      SET status = ?, error = ?, duration_ms = ?
+      SET status = ?, error = ?, duration_ms = ?, error_code = ?
+      WHERE id = ?
+    `
+
+    const values = ['failed', errorMessage, durationMs, errorCode ?? null, id]
+
+    try {
+      await this.pool.execute(query, values)
+    } catch (error) {
+      throw new Error(
+        `Failed to update report: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }
+
+  async updateCancelled(id: string, durationMs: number): Promise<void> {
+    const query = `
+      UPDATE ${this.tableName}
+      SET status = ?, duration_ms = ?
       WHERE id = ?
     `
 
-    const values = ['failed', errorMessage, durationMs, id]
+    const values = ['cancelled', durationMs, id]
 
     try {
       await this.pool.execute(query, values)
@@ -201,22 +209,32 @@ export class MySQLStorageAdapter implements ReportStorageAdapter {
     limit?: number
     offset?: number
     status?: ReportStatus
+    orgIds?: string[]
   }): Promise<ListReportsResponse> {
     const limit = options?.limit || 10
     const offset = options?.offset || 0
 
-    // Build query with optional status filter
-    let query = `SELECT * FROM ${this.tableName}`
-    let countQuery = `SELECT COUNT(*) as count FROM ${this.tableName}`
+    // `IN ()` is a syntax error, and no organization means no reports
+    if (options?.orgIds?.length === 0) return { reports: [], total: 0 }
+
+    // Build query with optional status and organization filters
+    const conditions: string[] = []
     const values: (string | number)[] = []
 
     if (options?.status) {
-      query += ' WHERE status = ?'
-      countQuery += ' WHERE status = ?'
+      conditions.push('status = ?')
       values.push(options.status)
     }
+    if (options?.orgIds) {
+      conditions.push(
+        `COALESCE(org_id, '') IN (${options.orgIds.map(() => '?').join(', ')})`
+      )
+      values.push(...options.orgIds)
+    }
 
-    query += ' ORDER BY created_at DESC LIMIT ? OFFSET ?'
+    const where = conditions.length ? ` WHERE ${conditions.join(' AND ')}` : ''
+    const query = `SELECT * FROM ${this.tableName}${where} ORDER BY created_at DESC LIMIT ? OFFSET ?`
+    const countQuery = `SELECT COUNT(*) as count FROM ${this.tableName}${where}`
     const queryValues = [...values, limit, offset]
     const countValues = values
 
@@ -248,22 +266,7 @@ export class MySQLStorageAdapter implements ReportStorageAdapter {
   }
 
   private mapToStoredReport(row: DatabaseReportRow): StoredReport {
-    return {
-      id: row.id,
-      status: row.status,
-      fromDate: row.from_date,
-      toDate: row.to_date,
-      promptTemplate: row.prompt_template,
-      customPrompt: row.custom_prompt,
-      groupBy: row.group_by,
-      subgroupBy: row.subgroup_by,
-      orgId: row.org_id,
-      parameters: row.parameters || [],
-      results: row.results,
-      error: row.error,
-      durationMs: row.duration_ms,
-      createdAt: new Date(row.created_at).getTime(),
-    }
+    return fromReportRow(row)
   }
 
   /**
@@ -2,11 +2,17 @@ import type {
   ReportStorageAdapter,
   ListReportsResponse,
 } from '@/registry/default/lib/storage-adapter'
+import {
+  assertValidReportInput,
+  fromReportRow,
+  REPORT_INSERT_COLUMNS,
+  toReportRow,
+  type ReportRow,
+} from '@/registry/default/lib/schema'
 import type {
   StoredReport,
   ReportStatus,
   ReportResult,
-  FilterConfig,
 } from '@/registry/default/lib/types'
 import type { Pool } from 'pg'
 
@@ -15,27 +21,6 @@ export interface PostgresStorageConfig {
   tableName?: string
 }
 
-/**
- * Database row type matching the PostgreSQL schema (snake_case columns)
- */
-interface DatabaseReportRow {
-  id: string
-  status: ReportStatus
-  from_date: string
-  to_date: string
-  prompt_template: string | null
-  custom_prompt: string | null
-  group_by: string | null
-  subgroup_by: string | null
-  org_id: string | null
-  parameters: FilterConfig[] | null
-  results: ReportResult[] | null
-  error: string | null
-  duration_ms: number | null
-  created_at: Date
-  user_id: string | null
-}
-
 interface CountRow {
   count: string
 }
@@ -59,11 +44,11 @@ interface CountRow {
  * const storage = new PostgresStorageAdapter({ pool })
  * ```
  *
- * Database schema:
+ * Database schema (generated by `generateReportTableSql('postgres')`):
  * ```sql
  * CREATE TABLE coderabbit_reports (
  *   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
- *   status VARCHAR(20) NOT NULL CHECK (status IN ('pending', 'completed', 'failed')),
+ *   status VARCHAR(20) NOT NULL CHECK (status IN ('pending', 'completed', 'failed', 'cancelled')),
  *   from_date VARCHAR(255) NOT NULL,
  *   to_date VARCHAR(255) NOT NULL,
  *   prompt_template VARCHAR(255),
@@ -71,19 +56,28 @@ interface CountRow {
  *   group_by VARCHAR(50),
  *   subgroup_by VARCHAR(50),
  *   org_id VARCHAR(255),
+ *   time_zone VARCHAR(64),
  *   parameters JSONB DEFAULT '[]'::jsonb,
- *   results JSONB,
+ *   results JSONB NOT NULL,
  *   error TEXT,
+ *   error_code VARCHAR(64),
  *   duration_ms INTEGER,
- *   created_at TIMESTAMPTZ DEFAULT NOW(),
+ *   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
  *   user_id VARCHAR(255)
  * );
  *
- * -- Indexes for better performance
  * CREATE INDEX idx_reports_status ON coderabbit_reports(status);
  * CREATE INDEX idx_reports_user_id ON coderabbit_reports(user_id);
  * CREATE INDEX idx_reports_created_at ON coderabbit_reports(created_at DESC);
  * ```
+ *
+ * Tables created before the `cancelled` status need the constraint updated,
+ * or updateCancelled fails:
+ * ```sql
+ * ALTER TABLE coderabbit_reports DROP CONSTRAINT coderabbit_reports_status_check;
+ * ALTER TABLE coderabbit_reports ADD CONSTRAINT coderabbit_reports_status_check
+ *   CHECK (status IN ('pending', 'completed', 'failed', 'cancelled'));
+ * ```
  */
 export class PostgresStorageAdapter implements ReportStorageAdapter {
   private pool: Pool
@@ -95,29 +89,19 @@ export class PostgresStorageAdapter implements ReportStorageAdapter {
   }
 
   async create(data: Omit<StoredReport, 'id' | 'createdAt'>): Promise<string> {
+    assertValidReportInput(data)
+
+    const row = toReportRow(
+      { ...data, parameters: data.parameters || [] },
+      { serializeJson: true }
+    )
     const query = `
-      INSERT INTO ${this.tableName} (
-        status, from_date, to_date, prompt_template, custom_prompt,
-        group_by, subgroup_by, org_id, parameters, results, error, duration_ms
-      )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      INSERT INTO ${this.tableName} (${REPORT_INSERT_COLUMNS.join(', ')})
+      VALUES (${REPORT_INSERT_COLUMNS.map((_, i) => `$${i + 1}`).join(', ')})
       RETURNING id
     `
 
-    const values = [
-      data.status,
-      data.fromDate,
-      data.toDate,
-      data.promptTemplate,
-      data.customPrompt,
-      data.groupBy,
-      data.subgroupBy,
-      data.orgId,
-      JSON.stringify(data.parameters || []),
-      data.results ? JSON.stringify(data.results) : null,
-      data.error,
-      data.durationMs,
-    ]
+    const values = REPORT_INSERT_COLUMNS.map((column) => row[column] ?? null)
 
     try {
       const result = await this.pool.query<{ id: string }>(query, values)
@@ -154,15 +138,34 @@ export class PostgresStorageAdapter implements ReportStorageAdapter {
   async updateFailure(
     id: string,
     errorMessage: string,
-    durationMs: number
+    durationMs: number,
+    errorCode?: string
   ): Promise<void> {
     const query = `
       UPDATE ${this.tableName}
-      SET status = $1, error = $2, duration_ms = $3
-      WHERE id = $4
+      SET status = $1, error = $2, duration_ms = $3, error_code = $4
+      WHERE id = $5
     `
 
-    const values = ['failed', errorMessage, durationMs, id]
+    const values = ['failed', errorMessage, durationMs, errorCode ?? null, id]
+
+    try {
+      await this.pool.query(query, values)
+    } catch (error) {
+      throw new Error(
+        `Failed to update report: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }
+
+  async updateCancelled(id: string, durationMs: number): Promise<void> {
+    const query = `
+      UPDATE ${this.tableName}
+      SET status = $1, duration_ms = $2
+      WHERE id = $3
+    `
+
+    const values = ['cancelled', durationMs, id]
 
     try {
       await this.pool.query(query, values)
@@ -177,7 +180,7 @@ export class PostgresStorageAdapter implements ReportStorageAdapter {
     const query = `SELECT * FROM ${this.tableName} WHERE id = $1`
 
     try {
-      const result = await this.pool.query<DatabaseReportRow>(query, [id])
+      const result = await this.pool.query<ReportRow>(query, [id])
 
       if (result.rows.length === 0) {
         return null
@@ -195,28 +198,32 @@ export class PostgresStorageAdapter implements ReportStorageAdapter {
     limit?: number
     offset?: number
     status?: ReportStatus
+    orgIds?: string[]
   }): Promise<ListReportsResponse> {
     const limit = options?.limit || 10
     const offset = options?.offset || 0
 
-    // Build query with optional status filter
-    let query = `SELECT * FROM ${this.tableName}`
-    let countQuery = `SELECT COUNT(*) FROM ${this.tableName}`
-    const values: (string | number)[] = []
+    // Build query with optional status and organization filters
+    const conditions: string[] = []
+    const values: (string | number | string[])[] = []
 
     if (options?.status) {
-      query += ' WHERE status = $1'
-      countQuery += ' WHERE status = $1'
       values.push(options.status)
+      conditions.push(`status = $${values.length}`)
+    }
+    if (options?.orgIds) {
+      values.push(options.orgIds)
+      conditions.push(`COALESCE(org_id, '') = ANY($${values.length})`)
     }
 
-    query += ' ORDER BY created_at DESC LIMIT $' + (values.length + 1) + ' OFFSET $' + (values.length + 2)
-    values.push(limit, offset)
+    const where = conditions.length ? ` WHERE ${conditions.join(' AND ')}` : ''
+    const query = `SELECT * FROM ${this.tableName}${where} ORDER BY created_at DESC LIMIT $${values.length + 1} OFFSET $${values.length + 2}`
+    const countQuery = `SELECT COUNT(*) FROM ${this.tableName}${where}`
 
     try {
       const [dataResult, countResult] = await Promise.all([
-        this.pool.query<DatabaseReportRow>(query, values),
-        this.pool.query<CountRow>(countQuery, options?.status ? [options.status] : []),
+        this.pool.query<ReportRow>(query, [...values, limit, offset]),
+        this.pool.query<CountRow>(countQuery, values),
       ])
 
       return {
@@ -242,23 +249,8 @@ export class PostgresStorageAdapter implements ReportStorageAdapter {
     }
   }
 
-  private mapToStoredReport(row: DatabaseReportRow): StoredReport {
-    return {
-      id: row.id,
-      status: row.status,
-      fromDate: row.from_date,
-      toDate: row.to_date,
-      promptTemplate: row.prompt_template,
-      customPrompt: row.custom_prompt,
-      groupBy: row.group_by,
-      subgroupBy: row.subgroup_by,
-      orgId: row.org_id,
-      parameters: row.parameters || [],
-      results: row.results,
-      error: row.error,
-      durationMs: row.duration_ms,
-      createdAt: new Date(row.created_at).getTime(),
-    }
+  private mapToStoredReport(row: ReportRow): StoredReport {
+    return fromReportRow(row)
   }
 
   /**
@@ -2,11 +2,16 @@ import type {
   ReportStorageAdapter,
   ListReportsResponse,
 } from '@/registry/default/lib/storage-adapter'
+import {
+  assertValidReportInput,
+  fromReportRow,
+  toReportRow,
+  type ReportRow,
+} from '@/registry/default/lib/schema'
 import type {
   StoredReport,
   ReportStatus,
   ReportResult,
-  FilterConfig,
 } from '@/registry/default/lib/types'
 import type { SupabaseClient } from '@supabase/supabase-js'
 
@@ -16,27 +21,6 @@ export interface SupabaseStorageConfig {
   enableRLS?: boolean
 }
 
-/**
- * Database row type matching the Supabase schema (snake_case columns)
- */
-interface DatabaseReportRow {
-  id: string
-  status: ReportStatus
-  from_date: string
-  to_date: string
-  prompt_template: string | null
-  custom_prompt: string | null
-  group_by: string | null
-  subgroup_by: string | null
-  org_id: string | null
-  parameters: FilterConfig[] | null
-  results: ReportResult[] | null
-  error: string | null
-  duration_ms: number | null
-  created_at: string
-  user_id: string | null
-}
-
 /**
  * Supabase storage adapter for CodeRabbit reports
  *
@@ -53,11 +37,11 @@ interface DatabaseReportRow {
  * const storage = new SupabaseStorageAdapter({ client: supabase })
  * ```
  *
- * Database schema:
+ * Database schema (generated by `generateReportTableSql('supabase')`):
  * ```sql
  * create table coderabbit_reports (
  *   id uuid primary key default gen_random_uuid(),
- *   status text not null check (status in ('pending', 'completed', 'failed')),
+ *   status text not null check (status in ('pending', 'completed', 'failed', 'cancelled')),
  *   from_date text not null,
  *   to_date text not null,
  *   prompt_template text,
@@ -65,15 +49,16 @@ interface DatabaseReportRow {
  *   group_by text,
  *   subgroup_by text,
  *   org_id text,
+ *   time_zone text,
  *   parameters jsonb default '[]'::jsonb,
- *   results jsonb,
+ *   results jsonb not null,
  *   error text,
+ *   error_code text,
  *   duration_ms integer,
- *   created_at timestamptz default now(),
+ *   created_at timestamptz not null default now(),
  *   user_id uuid references auth.users(id)
  * );
  *
- * -- Indexes for better performance
  * create index idx_reports_status on coderabbit_reports(status);
  * create index idx_reports_user_id on coderabbit_reports(user_id);
  * create index idx_reports_created_at on coderabbit_reports(created_at desc);
@@ -90,6 +75,14 @@ interface DatabaseReportRow {
  *   on coderabbit_reports for insert
  *   with check (auth.uid() = user_id);
  * ```
+ *
+ * Tables created before the `cancelled` status need the constraint updated,
+ * or updateCancelled fails:
+ * ```sql
+ * alter table coderabbit_reports drop constraint coderabbit_reports_status_check;
+ * alter table coderabbit_reports add constraint coderabbit_reports_status_check
+ *   check (status in ('pending', 'completed', 'failed', 'cancelled'));
+ * ```
  */
 export class SupabaseStorageAdapter implements ReportStorageAdapter {
   private client: SupabaseClient
@@ -101,22 +94,11 @@ export class SupabaseStorageAdapter implements ReportStorageAdapter {
   }
 
   async create(data: Omit<StoredReport, 'id' | 'createdAt'>): Promise<string> {
+    assertValidReportInput(data)
+
     const { data: report, error } = await this.client
       .from(this.tableName)
-      .insert({
-        status: data.status,
-        from_date: data.fromDate,
-        to_date: data.toDate,
-        prompt_template: data.promptTemplate,
-        custom_prompt: data.customPrompt,
-        group_by: data.groupBy,
-        subgroup_by: data.subgroupBy,
-        org_id: data.orgId,
-        parameters: data.parameters || [],
-        results: data.results,
-        error: data.error,
-        duration_ms: data.durationMs,
-      })
+      .insert(toReportRow({ ...data, parameters: data.parameters || [] }))
       .select('id')
       .single()
 
@@ -149,13 +131,29 @@ export class SupabaseStorageAdapter implements ReportStorageAdapter {
   async updateFailure(
     id: string,
     errorMessage: string,
-    durationMs: number
+    durationMs: number,
+    errorCode?: string
   ): Promise<void> {
     const { error } = await this.client
       .from(this.tableName)
       .update({
         status: 'failed' as ReportStatus,
         error: errorMessage,
+        error_code: errorCode ?? null,
+        duration_ms: durationMs,
+      })
+      .eq('id', id)
+
+    if (error) {
+      throw new Error(`Failed to update report: ${error.message}`)
+    }
+  }
+
+  async updateCancelled(id: string, durationMs: number): Promise<void> {
+    const { error } = await this.client
+      .from(this.tableName)
+      .update({
+        status: 'cancelled' as ReportStatus,
         duration_ms: durationMs,
       })
       .eq('id', id)
@@ -186,7 +184,11 @@ export class SupabaseStorageAdapter implements ReportStorageAdapter {
     limit?: number
     offset?: number
     status?: ReportStatus
+    orgIds?: string[]
   }): Promise<ListReportsResponse> {
+    const orgIds = options?.orgIds
+    if (orgIds?.length === 0) return { reports: [], total: 0 }
+
     let query = this.client
       .from(this.tableName)
       .select('*', { count: 'exact' })
@@ -196,6 +198,16 @@ export class SupabaseStorageAdapter implements ReportStorageAdapter {
       query = query.eq('status', options.status)
     }
 
+    if (orgIds) {
+      // Reports without an organization are stored with a null org_id
+      const quoted = orgIds
+        .map((id) => `"${id.replace(/["\\]/g, '\\$&')}"`)
+        .join(',')
+      query = orgIds.includes('')
+        ? query.or(`org_id.is.null,org_id.in.(${quoted})`)
+        : query.in('org_id', orgIds)
+    }
+
     if (options?.limit) {
       query = query.limit(options.limit)
     }
@@ -230,22 +242,7 @@ export class SupabaseStorageAdapter implements ReportStorageAdapter {
     }
   }
 
-  private mapToStoredReport(data: DatabaseReportRow): StoredReport {
-    return {
-      id: data.id,
-      status: data.status,
-      fromDate: data.from_date,
-      toDate: data.to_date,
-      promptTemplate: data.prompt_template,
-      customPrompt: data.custom_prompt,
-      groupBy: data.group_by,
-      subgroupBy: data.subgroup_by,
-      orgId: data.org_id,
-      parameters: data.parameters || [],
-      results: data.results,
-      error: data.error,
-      durationMs: data.duration_ms,
-      createdAt: new Date(data.created_at).getTime(),
-    }
+  private mapToStoredReport(data: ReportRow): StoredReport {
+    return fromReportRow(data)
   }
 }
@@ -0,0 +1,292 @@
+/**
+ * CodeRabbit Telemetry
+ * Optional OpenTelemetry spans and metrics, a no-op until a tracer or meter is registered
+ */
+
+import {
+  isCodeRabbitError,
+  type CodeRabbitErrorInfo,
+} from '@/registry/default/lib/errors'
+import type { ReportStorageAdapter } from '@/registry/default/lib/storage-adapter'
+import type {
+  ReportGenerateRequest,
+  ReportResult,
+} from '@/registry/default/lib/types'
+
+/**
+ * Span attribute values (subset of the OpenTelemetry AttributeValue type)
+ */
+export type TelemetryAttributes = Record<
+  string,
+  string | number | boolean | undefined
+>
+
+/**
+ * The parts of an OpenTelemetry Span used here
+ * `trace.getTracer()` spans from @opentelemetry/api satisfy this interface.
+ */
+export interface TelemetrySpan {
+  setAttributes(attributes: TelemetryAttributes): unknown
+  setStatus(status: { code: number; message?: string }): unknown
+  recordException(exception: Error | string): unknown
+  end(): unknown
+}
+
+/**
+ * The parts of an OpenTelemetry Tracer used here
+ */
+export interface TelemetryTracer {
+  startActiveSpan<T>(
+    name: string,
+    options: { attributes?: TelemetryAttributes },
+    fn: (span: TelemetrySpan) => T,
+  ): T
+}
+
+/**
+ * The parts of an OpenTelemetry Meter used here
+ */
+export interface TelemetryMeter {
+  createHistogram(
+    name: string,
+    options?: { description?: string; unit?: string },
+  ): { record(value: number, attributes?: TelemetryAttributes): void }
+  createCounter(
+    name: string,
+    options?: { description?: string; unit?: string },
+  ): { add(value: number, attributes?: TelemetryAttributes): void }
+}
+
+export interface CodeRabbitTelemetryOptions {
+  tracer?: TelemetryTracer
+  meter?: TelemetryMeter
+}
+
+// OpenTelemetry SpanStatusCode.ERROR
+const SPAN_STATUS_ERROR = 2
+
+interface Instruments {
+  tracer: TelemetryTracer | null
+  duration: ReturnType<TelemetryMeter['createHistogram']> | null
+  errors: ReturnType<TelemetryMeter['createCounter']> | null
+}
+
+let instruments: Instruments = { tracer: null, duration: null, errors: null }
+
+/**
+ * Enable tracing and metrics
+ *
+ * @example
+ * ```ts
+ * import { metrics, trace } from '@opentelemetry/api'
+ *
+ * registerCodeRabbitTelemetry({
+ *   tracer: trace.getTracer('coderabbit'),
+ *   meter: metrics.getMeter('coderabbit'),
+ * })
+ * ```
+ */
+export function registerCodeRabbitTelemetry(
+  options: CodeRabbitTelemetryOptions | null,
+): void {
+  instruments = {
+    tracer: options?.tracer ?? null,
+    duration:
+      options?.meter?.createHistogram('coderabbit.operation.duration', {
+        description: 'Duration of CodeRabbit operations',
+        unit: 'ms',
+      }) ?? null,
+    errors:
+      options?.meter?.createCounter('coderabbit.operation.errors', {
+        description: 'Failed CodeRabbit operations',
+      }) ?? null,
+  }
+}
+
+const NOOP_SPAN: TelemetrySpan = {
+  setAttributes: () => {},
+  setStatus: () => {},
+  recordException: () => {},
+  end: () => {},
+}
+
+/**
+ * Request parameters as span attributes (the API key is never recorded)
+ * Tolerates unvalidated input, since spans start before validation.
+ */
+export function getRequestAttributes(
+  request: ReportGenerateRequest,
+): TelemetryAttributes {
+  const attribute = (value: unknown) =>
+    typeof value === 'string' ? value : undefined
+  return {
+    'coderabbit.request.from': attribute(request?.from),
+    'coderabbit.request.to': attribute(request?.to),
+    'coderabbit.request.template': attribute(request?.promptTemplate),
+    'coderabbit.request.has_prompt': !!request?.prompt,
+    'coderabbit.request.group_by': attribute(request?.groupBy),
+    'coderabbit.request.subgroup_by': attribute(request?.subgroupBy),
+    'coderabbit.request.org_id': attribute(request?.orgId),
+    'coderabbit.request.filters': Array.isArray(request?.parameters)
+      ? request.parameters.length
+      : 0,
+  }
+}
+
+/**
+ * Result group count and total markdown size in bytes
+ */
+export function getResultAttributes(
+  results: ReportResult[],
+): TelemetryAttributes {
+  const encoder = new TextEncoder()
+  return {
+    'coderabbit.result.groups': results.length,
+    'coderabbit.result.bytes': results.reduce(
+      (total, result) => total + encoder.encode(result.report).length,
+      0,
+    ),
+  }
+}
+
+/**
+ * Drop undefined values, which OpenTelemetry rejects
+ */
+function compact(attributes: TelemetryAttributes): TelemetryAttributes {
+  return Object.fromEntries(
+    Object.entries(attributes).filter(([, value]) => value !== undefined),
+  )
+}
+
+function getErrorAttributes(error: CodeRabbitErrorInfo & { status?: number }) {
+  return {
+    'coderabbit.error.code': error.code,
+    'http.response.status_code': error.status,
+  }
+}
+
+/**
+ * Run `fn` inside a span and record its duration and errors
+ *
+ * Thrown errors mark the span as failed. For operations that return errors as
+ * values (like server actions), `getError` extracts them from the result.
+ */
+export async function withSpan<T>(
+  name: string,
+  attributes: TelemetryAttributes,
+  fn: (span: TelemetrySpan) => Promise<T>,
+  options?: { getError?: (result: T) => CodeRabbitErrorInfo | undefined },
+): Promise<T> {
+  const { tracer, duration, errors } = instruments
+  if (!tracer && !duration && !errors) return fn(NOOP_SPAN)
+
+  const run = async (otelSpan: TelemetrySpan): Promise<T> => {
+    const startTime = Date.now()
+    const span: TelemetrySpan = {
+      setAttributes: (values) => otelSpan.setAttributes(compact(values)),
+      setStatus: (status) => otelSpan.setStatus(status),
+      recordException: (exception) => otelSpan.recordException(exception),
+      end: () => otelSpan.end(),
+    }
+    let failure: (CodeRabbitErrorInfo & { status?: number }) | undefined
+
+    try {
+      const result = await fn(span)
+      failure = options?.getError?.(result)
+      return result
+    } catch (error) {
+      failure = isCodeRabbitError(error)
+        ? error
+        : { code: 'UNKNOWN', message: String(error) }
+      span.recordException(error instanceof Error ? error : String(error))
+      throw error
+    } finally {
+      const metricAttributes = compact({
+        'coderabbit.operation': name,
+        'coderabbit.error.code': failure?.code,
+      })
+
+      if (failure) {
+        span.setAttributes(getErrorAttributes(failure))
+        span.setStatus({ code: SPAN_STATUS_ERROR, message: failure.message })
+        errors?.add(1, metricAttributes)
+      }
+      duration?.record(Date.now() - startTime, metricAttributes)
+      span.end()
+    }
+  }
+
+  return tracer
+    ? tracer.startActiveSpan(name, { attributes: compact(attributes) }, run)
+    : run(NOOP_SPAN)
+}
+
+const INSTRUMENTED = Symbol.for('coderabbit.telemetry.instrumented')
+
+/**
+ * Wrap a storage adapter so every call is traced
+ * Already-instrumented adapters are returned as is.
+ *
+ * @example
+ * ```ts
+ * const storage = instrumentStorage(new PostgresStorageAdapter(pool))
+ * ```
+ */
+export function instrumentStorage(
+  storage: ReportStorageAdapter,
+  adapterName = storage.constructor?.name ?? 'storage',
+): ReportStorageAdapter {
+  if ((storage as { [INSTRUMENTED]?: boolean })[INSTRUMENTED]) return storage
+
+  const trace = <T>(
+    method: string,
+    attributes: TelemetryAttributes,
+    fn: () => Promise<T>,
+  ) =>
+    withSpan(
+      `coderabbit.storage.${method}`,
+      { 'coderabbit.storage.adapter': adapterName, ...attributes },
+      fn,
+    )
+
+  const instrumented: ReportStorageAdapter & { [INSTRUMENTED]: boolean } = {
+    [INSTRUMENTED]: true,
+    create: (data) =>
+      trace('create', { 'coderabbit.report.status': data.status }, () =>
+        storage.create(data),
+      ),
+    updateSuccess: (id, results, durationMs) =>
+      trace(
+        'update_success',
+        { 'coderabbit.report.id': id, ...getResultAttributes(results) },
+        () => storage.updateSuccess(id, results, durationMs),
+      ),
+    updateFailure: (id, error, durationMs, errorCode) =>
+      trace('update_failure', { 'coderabbit.report.id': id }, () =>
+        storage.updateFailure(id, error, durationMs, errorCode),
+      ),
+    updateCancelled:
+      storage.updateCancelled &&
+      ((id, durationMs) =>
+        trace('update_cancelled', { 'coderabbit.report.id': id }, () =>
+          storage.updateCancelled!(id, durationMs),
+        )),
+    get: (id) =>
+      trace('get', { 'coderabbit.report.id': id }, () => storage.get(id)),
+    list: (options) =>
+      trace(
+        'list',
+        {
+          'coderabbit.storage.limit': options?.limit,
+          'coderabbit.storage.offset': options?.offset,
+        },
+        () => storage.list(options),
+      ),
+    delete: (id) =>
+      trace('delete', { 'coderabbit.report.id': id }, () =>
+        storage.delete(id),
+      ),
+  }
+
+  return instrumented
+}
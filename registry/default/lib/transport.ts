@@ -0,0 +1,78 @@
+/**
+ * CodeRabbit Transport
+ * Pluggable HTTP layer for proxies, service bindings, recorders and test doubles
+ */
+
+/**
+ * A single HTTP request issued by the client
+ */
+export interface TransportRequest {
+  url: string
+  method: 'POST'
+  headers: Record<string, string>
+  body: string
+  /** Aborts on timeout or cancellation; transports should honor it */
+  signal: AbortSignal
+}
+
+/**
+ * Sends requests for CodeRabbitClient
+ *
+ * The client enforces its own timeout and cancellation around `send`, so a
+ * transport that ignores `signal` still can't outlive the deadline.
+ */
+export interface Transport {
+  send(request: TransportRequest): Promise<Response>
+}
+
+/**
+ * Fetch-compatible function (global fetch, undici, service bindings)
+ */
+export type FetchLike = (url: string, init: RequestInit) => Promise<Response>
+
+export interface FetchTransportOptions {
+  /** Fetch implementation (default: global fetch) */
+  fetch?: FetchLike
+  /**
+   * Extra fetch options merged into every request, e.g. an undici `dispatcher`
+   * for proxy support
+   */
+  init?: RequestInit & Record<string, unknown>
+}
+
+/**
+ * Transport backed by fetch
+ *
+ * @example
+ * ```ts
+ * // Corporate proxy (Node.js)
+ * import { ProxyAgent, fetch } from 'undici'
+ *
+ * const transport = createFetchTransport({
+ *   fetch: fetch as FetchLike,
+ *   init: { dispatcher: new ProxyAgent(process.env.HTTPS_PROXY!) },
+ * })
+ *
+ * // Cloudflare service binding
+ * const transport = createFetchTransport({
+ *   fetch: (url, init) => env.CODERABBIT.fetch(url, init),
+ * })
+ * ```
+ */
+export function createFetchTransport(
+  options?: FetchTransportOptions,
+): Transport {
+  return {
+    send: (request) => {
+      // Resolve lazily so tests can replace globalThis.fetch after creation
+      const fetchImpl = options?.fetch ?? ((url, init) => fetch(url, init))
+      return fetchImpl(request.url, {
+        ...options?.init,
+        method: request.method,
+        headers: request.headers,
+        body: request.body,
+        signal: request.signal,
+      })
+    },
+  }
+}
@@ -45,7 +45,7 @@ export type GroupBy =
 /**
  * Report status types
  */
-export type ReportStatus = 'pending' | 'completed' | 'failed'
+export type ReportStatus = 'pending' | 'completed' | 'failed' | 'cancelled'
 
 /**
  * Filter parameter configuration
@@ -69,6 +69,7 @@ export interface ReportGenerateRequest {
   groupBy?: GroupBy
   subgroupBy?: GroupBy
   orgId?: string
+  timeZone?: string // IANA timezone the dates are in (e.g. 'Asia/Tokyo'), not sent to the API
 }
 
 /**
@@ -89,14 +90,17 @@ export interface StoredReport {
   toDate: string
   promptTemplate?: string
   prompt?: string
+  /** @deprecated Use `prompt`. Still read from older records. */
   customPrompt?: string
   groupBy?: string
   subgroupBy?: string
   orgId?: string
+  timeZone?: string // IANA timezone of fromDate/toDate
   parameters?: FilterConfig[]
   results: ReportResult[]
   status: ReportStatus
   error?: string
+  errorCode?: string // CodeRabbitErrorCode of a failure
   createdAt: number
   durationMs?: number
 }
@@ -123,6 +127,13 @@ export const FILTER_PARAMETERS = [
 
 export const FILTER_OPERATORS = ['IN', 'ALL', 'NOT_IN'] as const
 
+export const REPORT_STATUSES = [
+  'pending',
+  'completed',
+  'failed',
+  'cancelled',
+] as const
+
 export const GROUP_BY_OPTIONS = [
   'NONE',
   'REPOSITORY',
@@ -0,0 +1,341 @@
+/**
+ * CodeRabbit Validation
+ * Runtime checks for report requests (before they hit the API) and responses
+ */
+
+import {
+  FILTER_OPERATORS,
+  FILTER_PARAMETERS,
+  GROUP_BY_OPTIONS,
+  PROMPT_TEMPLATES,
+  type ReportGenerateRequest,
+  type ReportResult,
+} from '@/registry/default/lib/types'
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Group name used when the API returns an empty or null group
+ */
+export const DEFAULT_REPORT_GROUP = 'All'
+
+/**
+ * A single field-level problem
+ * `field` uses dot paths for nested values (e.g. `parameters.0.values`)
+ */
+export interface ValidationIssue {
+  field: string
+  message: string
+}
+
+export interface ValidationResult {
+  valid: boolean
+  issues: ValidationIssue[]
+}
+
+/**
+ * Result of validating a report.generate response
+ */
+export interface ReportResultsValidation extends ValidationResult {
+  /** Normalized results (only meaningful when `valid` is true) */
+  results: ReportResult[]
+  /** Extra fields seen on result items, e.g. `0.metadata` */
+  unknownFields: string[]
+}
+
+/**
+ * Check that a string is a real calendar date in YYYY-MM-DD format
+ */
+export function isValidIsoDate(value: unknown): value is string {
+  if (typeof value !== 'string' || !ISO_DATE_PATTERN.test(value)) return false
+
+  const [year, month, day] = value.split('-').map(Number)
+  const date = new Date(Date.UTC(year, month - 1, day))
+  return (
+    date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day
+  )
+}
+
+/**
+ * Check that a string is an IANA timezone the runtime recognizes
+ */
+export function isValidTimeZone(value: unknown): value is string {
+  if (typeof value !== 'string' || !value.trim()) return false
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value })
+    return true
+  } catch {
+    return false
+  }
+}
+
+function includes(list: readonly string[], value: unknown): boolean {
+  return typeof value === 'string' && list.includes(value)
+}
+
+/**
+ * Validate a single filter
+ * `field` prefixes issue paths (e.g. `parameters.0`)
+ */
+export function validateFilterConfig(
+  filter: unknown,
+  field = '',
+): ValidationIssue[] {
+  const prefix = field ? `${field}.` : ''
+  if (typeof filter !== 'object' || filter === null || Array.isArray(filter)) {
+    return [{ field, message: 'Filter must be an object' }]
+  }
+
+  const { parameter, operator, values } = filter as Record<string, unknown>
+  const issues: ValidationIssue[] = []
+
+  if (!includes(FILTER_PARAMETERS, parameter)) {
+    issues.push({
+      field: `${prefix}parameter`,
+      message: `Filter parameter must be one of: ${FILTER_PARAMETERS.join(', ')}`,
+    })
+  }
+  if (!includes(FILTER_OPERATORS, operator)) {
+    issues.push({
+      field: `${prefix}operator`,
+      message: `Filter operator must be one of: ${FILTER_OPERATORS.join(', ')}`,
+    })
+  }
+  if (
+    !Array.isArray(values) ||
+    values.length === 0 ||
+    values.some((v) => typeof v !== 'string' || !v.trim())
+  ) {
+    issues.push({
+      field: `${prefix}values`,
+      message: 'Filter values must be a non-empty list of non-blank values',
+    })
+  }
+
+  return issues
+}
+
+/**
+ * Validate a report request against the API's documented constraints
+ * Accepts untrusted input (e.g. a JSON body): anything malformed is reported
+ * as an issue instead of throwing.
+ *
+ * @example
+ * ```ts
+ * const { valid, issues } = validateReportRequest(request)
+ * if (!valid) console.log(issues) // [{ field: 'to', message: '...' }]
+ * ```
+ */
+export function validateReportRequest(input: unknown): ValidationResult {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return {
+      valid: false,
+      issues: [{ field: '', message: 'Report request must be an object' }],
+    }
+  }
+
+  const request = input as ReportGenerateRequest
+  const issues: ValidationIssue[] = []
+
+  // Date range
+  const fromValid = isValidIsoDate(request.from)
+  const toValid = isValidIsoDate(request.to)
+
+  if (!fromValid) {
+    issues.push({
+      field: 'from',
+      message: 'Start date must be a valid date (YYYY-MM-DD)',
+    })
+  }
+  if (!toValid) {
+    issues.push({
+      field: 'to',
+      message: 'End date must be a valid date (YYYY-MM-DD)',
+    })
+  }
+  if (fromValid && toValid && request.from > request.to) {
+    issues.push({
+      field: 'to',
+      message: 'End date must be on or after the start date',
+    })
+  }
+
+  if (
+    request.scheduleRange !== undefined &&
+    request.scheduleRange !== 'Dates'
+  ) {
+    issues.push({
+      field: 'scheduleRange',
+      message: "Schedule range must be 'Dates'",
+    })
+  }
+
+  // Template and prompt
+  if (
+    request.promptTemplate !== undefined &&
+    !includes(PROMPT_TEMPLATES, request.promptTemplate)
+  ) {
+    issues.push({
+      field: 'promptTemplate',
+      message: `Template must be one of: ${PROMPT_TEMPLATES.join(', ')}`,
+    })
+  }
+
+  const isCustom =
+    request.promptTemplate === 'Custom' ||
+    (request.promptTemplate === undefined && request.prompt !== undefined)
+
+  if (request.prompt !== undefined && typeof request.prompt !== 'string') {
+    issues.push({
+      field: 'prompt',
+      message: 'Custom prompt must be a string',
+    })
+  } else if (isCustom && !request.prompt?.trim()) {
+    issues.push({
+      field: 'prompt',
+      message: 'Custom prompt is required',
+    })
+  }
+  if (request.promptTemplate === undefined && request.prompt === undefined) {
+    issues.push({
+      field: 'promptTemplate',
+      message: 'Select a report template or provide a custom prompt',
+    })
+  }
+
+  // Grouping
+  if (
+    request.groupBy !== undefined &&
+    !includes(GROUP_BY_OPTIONS, request.groupBy)
+  ) {
+    issues.push({
+      field: 'groupBy',
+      message: `Group by must be one of: ${GROUP_BY_OPTIONS.join(', ')}`,
+    })
+  }
+  if (request.subgroupBy !== undefined && request.subgroupBy !== 'NONE') {
+    if (!includes(GROUP_BY_OPTIONS, request.subgroupBy)) {
+      issues.push({
+        field: 'subgroupBy',
+        message: `Subgroup by must be one of: ${GROUP_BY_OPTIONS.join(', ')}`,
+      })
+    } else if (!request.groupBy || request.groupBy === 'NONE') {
+      issues.push({
+        field: 'subgroupBy',
+        message: 'Subgroup requires a group by option',
+      })
+    } else if (request.subgroupBy === request.groupBy) {
+      issues.push({
+        field: 'subgroupBy',
+        message: 'Subgroup must be different from group by',
+      })
+    }
+  }
+
+  if (request.orgId !== undefined) {
+    if (typeof request.orgId !== 'string') {
+      issues.push({
+        field: 'orgId',
+        message: 'Organization ID must be a string',
+      })
+    } else if (!request.orgId.trim()) {
+      issues.push({
+        field: 'orgId',
+        message: 'Organization ID cannot be empty',
+      })
+    }
+  }
+
+  if (request.timeZone !== undefined && !isValidTimeZone(request.timeZone)) {
+    issues.push({
+      field: 'timeZone',
+      message: 'Timezone must be an IANA timezone (e.g. Asia/Tokyo)',
+    })
+  }
+
+  // Filters
+  if (request.parameters !== undefined && !Array.isArray(request.parameters)) {
+    issues.push({
+      field: 'parameters',
+      message: 'Filters must be a list',
+    })
+  } else {
+    request.parameters?.forEach((filter, index) => {
+      issues.push(...validateFilterConfig(filter, `parameters.${index}`))
+    })
+  }
+
+  return { valid: issues.length === 0, issues }
+}
+
+/**
+ * Validate the (unwrapped) report.generate response
+ *
+ * Each item must have a `report` string and a `group` key. Empty or null groups
+ * are normalized to DEFAULT_REPORT_GROUP and unknown extra fields are dropped
+ * and listed in `unknownFields`.
+ */
+export function validateReportResults(data: unknown): ReportResultsValidation {
+  const issues: ValidationIssue[] = []
+  const unknownFields: string[] = []
+  const results: ReportResult[] = []
+
+  if (!Array.isArray(data)) {
+    return {
+      valid: false,
+      issues: [{ field: '', message: 'Response must be an array of results' }],
+      unknownFields,
+      results,
+    }
+  }
+
+  data.forEach((item: unknown, index) => {
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+      issues.push({ field: `${index}`, message: 'Result must be an object' })
+      return
+    }
+
+    const { group, report, ...rest } = item as Record<string, unknown>
+
+    if (!('group' in item)) {
+      issues.push({ field: `${index}.group`, message: 'Group is missing' })
+    } else if (group !== null && typeof group !== 'string') {
+      issues.push({
+        field: `${index}.group`,
+        message: 'Group must be a string',
+      })
+    }
+    if (typeof report !== 'string') {
+      issues.push({
+        field: `${index}.report`,
+        message: 'Report must be a markdown string',
+      })
+    }
+
+    unknownFields.push(...Object.keys(rest).map((key) => `${index}.${key}`))
+
+    results.push({
+      group:
+        typeof group === 'string' && group.trim()
+          ? group
+          : DEFAULT_REPORT_GROUP,
+      report: typeof report === 'string' ? report : '',
+    })
+  })
+
+  return { valid: issues.length === 0, issues, unknownFields, results }
+}
+
+/**
+ * Format issues as a single human-readable message
+ */
+export function formatValidationIssues(issues: ValidationIssue[]): string {
+  return issues
+    .map((issue) =>
+      issue.field ? `${issue.field}: ${issue.message}` : issue.message,
+    )
+    .join('; ')
+}
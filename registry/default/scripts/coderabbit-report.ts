@@ -0,0 +1,424 @@
+#!/usr/bin/env node
+/**
+ * CodeRabbit Report CLI
+ * Generate and manage reports from scripts and CI (run with tsx)
+ *
+ * @example
+ * ```bash
+ * npx tsx scripts/coderabbit-report.ts generate \
+ *   --from 2024-01-01 --to 2024-01-31 --template "Release Notes" \
+ *   --filter "REPOSITORY:IN:api|web" --group-by REPOSITORY \
+ *   --format md --out release-notes.md
+ *
+ * # Persist and manage reports with any storage adapter module
+ * npx tsx scripts/coderabbit-report.ts list --storage ./lib/report-storage.ts
+ * ```
+ */
+
+import { writeFile } from 'node:fs/promises'
+import { resolve } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { parseArgs } from 'node:util'
+
+import {
+  generateChunked,
+  getChunkFailure,
+  type ChunkBy,
+} from '@/registry/default/lib/chunking'
+import { createCodeRabbitClient } from '@/registry/default/lib/client'
+import {
+  isDateRangeExpression,
+  resolveDateRange,
+} from '@/registry/default/lib/date-range'
+import {
+  isCodeRabbitError,
+  toCodeRabbitErrorInfo,
+} from '@/registry/default/lib/errors'
+import {
+  toReportRecord,
+  type ReportStorageAdapter,
+} from '@/registry/default/lib/storage-adapter'
+import {
+  FILTER_OPERATORS,
+  FILTER_PARAMETERS,
+  type FilterConfig,
+  type GroupBy,
+  type PromptTemplate,
+  type ReportGenerateRequest,
+  type ReportResult,
+  type StoredReport,
+} from '@/registry/default/lib/types'
+import {
+  formatValidationIssues,
+  validateReportRequest,
+} from '@/registry/default/lib/validation'
+
+const USAGE = `Usage: coderabbit-report <command> [options]
+
+Commands:
+  generate            Generate a report
+  list                List stored reports
+  show <id>           Print a stored report
+  delete <id>         Delete a stored report
+
+Generate options:
+  --from <date>       Start date (YYYY-MM-DD)
+  --to <date>         End date (YYYY-MM-DD)
+  --range <expr>      Instead of --from/--to: today | yesterday | last-<n>-days |
+                      this-week | previous-week | this-month | previous-month |
+                      this-sprint | last-sprint
+  --time-zone <tz>    IANA timezone of the dates (default: local)
+  --sprint-length <n> Sprint length in days for sprint ranges (default: 14)
+  --sprint-anchor <d> First day of any sprint (YYYY-MM-DD)
+  --template <name>   Daily Standup Report | Sprint Report | Release Notes | Custom
+  --prompt <text>     Custom prompt
+  --filter <spec>     PARAMETER:OPERATOR:value1|value2 (repeatable)
+  --group-by <field>  Group results (e.g. REPOSITORY, TEAM, USER)
+  --subgroup-by <f>   Subgroup results
+  --org <id>          Organization ID
+  --chunk-by <size>   Split long ranges into week | month requests
+  --base-url <url>    API base URL (e.g. a proxy or mock server)
+
+Output options:
+  --format <fmt>      md (default) | json
+  --out <file>        Write to a file instead of stdout
+
+Storage options:
+  --storage <module>  Module whose default (or \`storage\`) export is a
+                      ReportStorageAdapter. Also read from
+                      CODERABBIT_STORAGE_MODULE. Required for list/show/delete.
+  --limit <n>         Reports to list (default: 20)
+
+Environment:
+  CODERABBIT_API_KEY (or CODERABBIT_API_KEY_<ORG> with --org)
+`
+
+/**
+ * Invalid command-line usage (exit code 2)
+ */
+class UsageError extends Error {}
+
+/**
+ * Parse `PARAMETER:OPERATOR:value1|value2` into a FilterConfig
+ */
+function parseFilter(spec: string): FilterConfig {
+  const [parameter, operator, ...rest] = spec.split(':')
+  const values = rest
+    .join(':')
+    .split('|')
+    .map((value) => value.trim())
+    .filter(Boolean)
+
+  if (!(FILTER_PARAMETERS as readonly string[]).includes(parameter)) {
+    throw new UsageError(
+      `Invalid filter parameter "${parameter}". Use one of: ${FILTER_PARAMETERS.join(', ')}`,
+    )
+  }
+  if (!(FILTER_OPERATORS as readonly string[]).includes(operator)) {
+    throw new UsageError(
+      `Invalid filter operator "${operator}". Use one of: ${FILTER_OPERATORS.join(', ')}`,
+    )
+  }
+  if (values.length === 0) {
+    throw new UsageError(`Filter "${spec}" has no values`)
+  }
+
+  return {
+    parameter: parameter as FilterConfig['parameter'],
+    operator: operator as FilterConfig['operator'],
+    values,
+  }
+}
+
+function formatResults(results: ReportResult[], format: string): string {
+  if (format === 'json') return `${JSON.stringify(results, null, 2)}\n`
+
+  return `${results
+    .map((result) => `## ${result.group}\n\n${result.report.trim()}`)
+    .join('\n\n')}\n`
+}
+
+async function output(content: string, out?: string): Promise<void> {
+  if (out) {
+    await writeFile(out, content)
+    console.error(`Wrote ${out}`)
+  } else {
+    process.stdout.write(content)
+  }
+}
+
+/**
+ * Import a storage adapter from a module path
+ */
+async function loadStorage(
+  modulePath: string | undefined,
+): Promise<ReportStorageAdapter | null> {
+  if (!modulePath) return null
+
+  const loaded = await import(pathToFileURL(resolve(modulePath)).href)
+  const storage = (loaded.default ?? loaded.storage) as
+    | ReportStorageAdapter
+    | undefined
+
+  if (!storage || typeof storage.create !== 'function') {
+    throw new UsageError(
+      `${modulePath} must export a ReportStorageAdapter as default or \`storage\``,
+    )
+  }
+
+  return storage
+}
+
+function requireStorage(
+  storage: ReportStorageAdapter | null,
+): ReportStorageAdapter {
+  if (!storage) {
+    throw new UsageError(
+      'This command needs storage. Pass --storage <module> or set CODERABBIT_STORAGE_MODULE.',
+    )
+  }
+  return storage
+}
+
+/**
+ * Dates from --from/--to, or from a --range expression
+ */
+function resolveRange(
+  values: Record<string, string | string[] | boolean | undefined>,
+): { from: string; to: string } {
+  const range = values.range as string | undefined
+  if (range && (values.from || values.to)) {
+    throw new UsageError('Use either --range or --from/--to, not both')
+  }
+  if (!range) {
+    const from = values.from as string | undefined
+    const to = values.to as string | undefined
+    if (!from || !to) {
+      throw new UsageError('--from and --to (or --range) are required')
+    }
+    return { from, to }
+  }
+
+  if (!isDateRangeExpression(range)) {
+    throw new UsageError(`Invalid --range "${range}"`)
+  }
+  const sprintLength = values['sprint-length'] as string | undefined
+
+  try {
+    return resolveDateRange(range, {
+      timeZone: values['time-zone'] as string | undefined,
+      sprint: {
+        lengthDays: sprintLength ? Number(sprintLength) : undefined,
+        anchor: values['sprint-anchor'] as string | undefined,
+      },
+    })
+  } catch (error) {
+    // Invalid timezones and sprint settings throw RangeError
+    throw new UsageError((error as Error).message)
+  }
+}
+
+async function generate(
+  values: Record<string, string | string[] | boolean | undefined>,
+  storage: ReportStorageAdapter | null,
+): Promise<void> {
+  const { from, to } = resolveRange(values)
+
+  const request: ReportGenerateRequest = {
+    from,
+    to,
+    promptTemplate: values.template as PromptTemplate | undefined,
+    prompt: values.prompt as string | undefined,
+    parameters: ((values.filter as string[] | undefined) ?? []).map(
+      parseFilter,
+    ),
+    groupBy: values['group-by'] as GroupBy | undefined,
+    subgroupBy: values['subgroup-by'] as GroupBy | undefined,
+    orgId: values.org as string | undefined,
+    timeZone: values['time-zone'] as string | undefined,
+  }
+
+  // Reject bad input before anything is stored
+  const { valid, issues } = validateReportRequest(request)
+  if (!valid) {
+    throw new UsageError(
+      `Invalid report request: ${formatValidationIssues(issues)}`,
+    )
+  }
+  const chunkBy = values['chunk-by'] as ChunkBy | undefined
+  if (chunkBy !== undefined && chunkBy !== 'week' && chunkBy !== 'month') {
+    throw new UsageError('--chunk-by must be week or month')
+  }
+
+  const client = createCodeRabbitClient({
+    baseUrl: values['base-url'] as string | undefined,
+  })
+  const startTime = Date.now()
+  const reportId = await storage?.create({
+    ...toReportRecord(request),
+    status: 'pending',
+    results: [],
+  })
+
+  try {
+    let results: ReportResult[]
+    if (chunkBy) {
+      const chunked = await generateChunked(
+        request,
+        (chunk) => client.generateReport(chunk),
+        {
+          chunkBy,
+          onProgress: ({ completed, failed, total }) =>
+            console.error(`Chunks: ${completed + failed}/${total}`),
+        },
+      )
+      // Exit non-zero with the failed ranges instead of a partial report
+      const failure = getChunkFailure(chunked.chunks)
+      if (failure) throw failure
+      results = chunked.results
+    } else {
+      results = await client.generateReport(request, {
+        onAttempt: (attempt) => {
+          if (attempt > 1) console.error(`Retrying (attempt ${attempt})...`)
+        },
+      })
+    }
+
+    if (storage && reportId) {
+      await storage.updateSuccess(reportId, results, Date.now() - startTime)
+      console.error(`Saved report ${reportId}`)
+    }
+
+    await output(
+      formatResults(results, values.format as string),
+      values.out as string | undefined,
+    )
+  } catch (error) {
+    if (storage && reportId) {
+      const info = toCodeRabbitErrorInfo(error)
+      await storage.updateFailure(
+        reportId,
+        info.message,
+        Date.now() - startTime,
+        info.code,
+      )
+    }
+    throw error
+  }
+}
+
+function formatListRow(report: StoredReport): string {
+  return [
+    report.id,
+    report.status.padEnd(9),
+    `${report.fromDate}..${report.toDate}`,
+    new Date(report.createdAt).toISOString(),
+    report.promptTemplate ?? 'Custom',
+  ].join('  ')
+}
+
+async function main(argv: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      from: { type: 'string' },
+      to: { type: 'string' },
+      range: { type: 'string' },
+      'time-zone': { type: 'string' },
+      'sprint-length': { type: 'string' },
+      'sprint-anchor': { type: 'string' },
+      template: { type: 'string' },
+      prompt: { type: 'string' },
+      filter: { type: 'string', multiple: true },
+      'group-by': { type: 'string' },
+      'subgroup-by': { type: 'string' },
+      org: { type: 'string' },
+      'chunk-by': { type: 'string' },
+      'base-url': { type: 'string' },
+      format: { type: 'string', default: 'md' },
+      out: { type: 'string' },
+      storage: { type: 'string' },
+      limit: { type: 'string', default: '20' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+
+  const [command, id] = positionals
+  if (values.help || !command) {
+    process.stdout.write(USAGE)
+    return
+  }
+  if (values.format !== 'md' && values.format !== 'json') {
+    throw new UsageError('--format must be md or json')
+  }
+
+  const storage = await loadStorage(
+    values.storage ?? process.env.CODERABBIT_STORAGE_MODULE,
+  )
+
+  switch (command) {
+    case 'generate':
+      return generate(values, storage)
+
+    case 'list': {
+      const limit = Number(values.limit)
+      if (!Number.isInteger(limit) || limit < 1) {
+        throw new UsageError('--limit must be a positive integer')
+      }
+      const { reports, total } = await requireStorage(storage).list({ limit })
+      if (values.format === 'json') {
+        return output(`${JSON.stringify(reports, null, 2)}\n`, values.out)
+      }
+      return output(
+        `${[...reports.map(formatListRow), `${reports.length} of ${total} reports`].join('\n')}\n`,
+        values.out,
+      )
+    }
+
+    case 'show': {
+      if (!id) throw new UsageError('Usage: coderabbit-report show <id>')
+      const report = await requireStorage(storage).get(id)
+      if (!report) throw new Error(`Report ${id} not found`)
+      if (values.format === 'json') {
+        return output(`${JSON.stringify(report, null, 2)}\n`, values.out)
+      }
+      if (report.status !== 'completed') {
+        throw new Error(
+          `Report ${id} is ${report.status}${report.error ? `: ${report.error}` : ''}`,
+        )
+      }
+      return output(formatResults(report.results, 'md'), values.out)
+    }
+
+    case 'delete': {
+      if (!id) throw new UsageError('Usage: coderabbit-report delete <id>')
+      await requireStorage(storage).delete(id)
+      console.error(`Deleted report ${id}`)
+      return
+    }
+
+    default:
+      throw new UsageError(`Unknown command "${command}"\n\n${USAGE}`)
+  }
+}
+
+main(process.argv.slice(2)).catch((error: unknown) => {
+  const isParseError = (error as { code?: string }).code?.startsWith(
+    'ERR_PARSE_ARGS',
+  )
+  if (error instanceof UsageError || isParseError) {
+    console.error((error as Error).message)
+    process.exit(2)
+  }
+
+  if (isCodeRabbitError(error)) {
+    console.error(`${error.code}: ${error.message}`)
+    for (const issue of error.issues ?? []) {
+      console.error(`  ${issue.field}: ${issue.message}`)
+    }
+  } else {
+    console.error(error instanceof Error ? error.message : String(error))
+  }
+  process.exit(1)
+})